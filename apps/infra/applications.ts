@@ -0,0 +1,28 @@
+import { ApplicationConfig } from "./types";
+
+// ==========================================
+// APPLICATIONS
+// ==========================================
+
+// Every entry gets its own ECR repository, ECS service, auto-scaling and
+// CodeBuild project on the shared cluster and load balancer
+export const applications: ApplicationConfig[] = [
+  {
+    name: "web",
+    contextPath: "../web",
+    buildspec: "apps/web/buildspec.yml",
+    requiresDatabaseAccess: true,
+    dependsOnMigrations: true,
+    buildCommand: "npm run build",
+    healthCheckPath: "/health",
+    environmentVariables: {
+      NODE_ENV: "production",
+      HOSTNAME: "0.0.0.0",
+    },
+    routing: {
+      default: true,
+    },
+    // Adopt the resources created before multi-application support
+    legacyAliases: true,
+  },
+];
@@ -0,0 +1,211 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import * as path from "path";
+import { applications } from "../applications";
+import {
+  FEATURE_FLAG_KEYS,
+  ProfileStore,
+  loadStackSettings,
+  resolveEnvironmentConfig,
+  resolveFeatureFlags,
+  workingTreeProfiles,
+} from "../modules/stack-settings";
+import { FeatureFlags } from "../types";
+import {
+  CostEstimate,
+  estimateMonthlyCost,
+  formatDiff,
+  formatEstimate,
+  loadPriceTable,
+} from "./estimate";
+
+// Usage:
+//   npm run cost -- <stack>[@<git-rev>]                     itemised estimate
+//   npm run cost -- <stack>[@<git-rev>] <stack>[@<git-rev>] difference between two
+//   options: --region <region> (default $AWS_REGION or us-east-1), --json
+
+const INFRA_DIR = path.join(__dirname, "..");
+
+interface Target {
+  stack: string;
+  revision?: string;
+}
+
+function parseTarget(arg: string): Target {
+  const [stack, revision] = arg.split("@");
+  if (!stack) {
+    throw new Error(`Expected <stack>[@<git-rev>], got "${arg}"`);
+  }
+  return { stack, revision };
+}
+
+function label(target: Target): string {
+  return target.revision ? `${target.stack}@${target.revision}` : target.stack;
+}
+
+/**
+ * Read a file from apps/infra, either from the working tree or a git revision
+ */
+function readInfraFile(file: string, revision?: string): string | undefined {
+  if (!revision) {
+    const fullPath = path.join(INFRA_DIR, file);
+    return fs.existsSync(fullPath)
+      ? fs.readFileSync(fullPath, "utf8")
+      : undefined;
+  }
+  try {
+    return execFileSync("git", ["show", `${revision}:./${file}`], {
+      cwd: INFRA_DIR,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function revisionProfiles(revision: string): ProfileStore {
+  return {
+    list() {
+      try {
+        return execFileSync(
+          "git",
+          ["ls-tree", "--name-only", `${revision}:./stacks`],
+          {
+            cwd: INFRA_DIR,
+            encoding: "utf8",
+            stdio: ["ignore", "pipe", "ignore"],
+          }
+        )
+          .split("\n")
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => file.replace(/\.json$/, ""));
+      } catch {
+        return [];
+      }
+    },
+    read(name) {
+      return readInfraFile(`stacks/${name}.json`, revision);
+    },
+  };
+}
+
+/**
+ * The pathfinder:* keys of Pulumi.<stack>.yaml, as Pulumi would pass them
+ */
+function readStackConfig(target: Target): Record<string, unknown> {
+  const contents = readInfraFile(
+    `Pulumi.${target.stack}.yaml`,
+    target.revision
+  );
+  if (!contents) {
+    return {};
+  }
+  const document = yaml.load(contents) as { config?: Record<string, unknown> };
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(document?.config ?? {})) {
+    if (key.startsWith("pathfinder:")) {
+      config[key.slice("pathfinder:".length)] = value;
+    }
+  }
+  return config;
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return undefined;
+}
+
+function estimate(target: Target, region: string): CostEstimate {
+  if (target.revision) {
+    // Fail early with git's own message for unknown revisions
+    execFileSync(
+      "git",
+      ["rev-parse", "--verify", `${target.revision}^{commit}`],
+      {
+        cwd: INFRA_DIR,
+        stdio: ["ignore", "ignore", "inherit"],
+      }
+    );
+  }
+
+  const stackConfig = readStackConfig(target);
+  const settings = loadStackSettings(target.stack, {
+    extends:
+      typeof stackConfig.extends === "string" ? stackConfig.extends : undefined,
+    overrides:
+      typeof stackConfig.settings === "string"
+        ? JSON.parse(stackConfig.settings)
+        : stackConfig.settings,
+    store: target.revision
+      ? revisionProfiles(target.revision)
+      : workingTreeProfiles,
+  });
+
+  const featureOverrides: Partial<FeatureFlags> = {};
+  for (const key of FEATURE_FLAG_KEYS) {
+    featureOverrides[key] = asBoolean(stackConfig[key]);
+  }
+  const features = resolveFeatureFlags(settings, featureOverrides);
+
+  const result = estimateMonthlyCost(
+    {
+      stack: target.stack,
+      settings,
+      features,
+      environmentConfig: resolveEnvironmentConfig(settings, features),
+      // Applications always come from the working tree
+      applications,
+    },
+    loadPriceTable(region)
+  );
+  return { ...result, stack: label(target) };
+}
+
+function main(argv: string[]) {
+  let region = process.env.AWS_REGION || "us-east-1";
+  let json = false;
+  const targets: Target[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--region") {
+      region = argv[++i];
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      targets.push(parseTarget(arg));
+    }
+  }
+  if (targets.length < 1 || targets.length > 2 || !region) {
+    throw new Error(
+      "Usage: cost <stack>[@<git-rev>] [<stack>[@<git-rev>]] [--region <region>] [--json]"
+    );
+  }
+
+  const estimates = targets.map((target) => estimate(target, region));
+  if (json) {
+    console.log(
+      JSON.stringify(estimates.length === 1 ? estimates[0] : estimates, null, 2)
+    );
+  } else if (estimates.length === 1) {
+    console.log(formatEstimate(estimates[0]));
+  } else {
+    console.log(formatDiff(estimates[0], estimates[1]));
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
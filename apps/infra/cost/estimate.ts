@@ -0,0 +1,684 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import {
+  StackSettings,
+  resolveDatabaseConfig,
+  resolveNetworkConfig,
+} from "../modules/stack-settings";
+import { ApplicationConfig, EnvironmentConfig, FeatureFlags } from "../types";
+import { resolveApplicationSizing } from "../utils";
+
+// Checked-in price tables live in apps/infra/cost/pricing/<region>.json
+export const PRICING_DIR = path.join(__dirname, "pricing");
+
+// ==========================================
+// PRICE TABLE
+// ==========================================
+
+const rate = z.number().min(0);
+
+const priceTableSchema = z
+  .object({
+    region: z.string(),
+    currency: z.string(),
+    retrieved: z.string(),
+    hoursPerMonth: z.number().positive(),
+    fargate: z.object({ vcpuHour: rate, gbHour: rate }).strict(),
+    natGateway: z.object({ hour: rate, gbProcessed: rate }).strict(),
+    publicIpv4: z.object({ hour: rate }).strict(),
+    vpcEndpoint: z
+      .object({ interfaceAzHour: rate, gbProcessed: rate })
+      .strict(),
+    transitGateway: z
+      .object({ attachmentHour: rate, gbProcessed: rate })
+      .strict(),
+    loadBalancer: z.object({ hour: rate, lcuHour: rate }).strict(),
+    rds: z
+      .object({
+        instanceHour: z.record(rate),
+        multiAzMultiplier: z.number().min(1),
+        gp3GbMonth: rate,
+      })
+      .strict(),
+    // Charged per vCPU (RDS) or ACU (Aurora) of the proxied database
+    rdsProxy: z
+      .object({
+        unitHour: rate,
+        minimumVcpus: rate,
+        minimumAcus: rate,
+      })
+      .strict(),
+    aurora: z
+      .object({
+        serverlessAcuHour: rate,
+        storageGbMonth: rate,
+        millionIoRequests: rate,
+      })
+      .strict(),
+    ec2: z.object({ instanceHour: z.record(rate) }).strict(),
+    codebuild: z.object({ minute: z.record(rate) }).strict(),
+    secretsManager: z.object({ secretMonth: rate }).strict(),
+    kms: z.object({ keyMonth: rate }).strict(),
+    cloudwatch: z
+      .object({
+        logIngestGb: rate,
+        logStorageGbMonth: rate,
+        dashboardMonth: rate,
+        alarmMonth: rate,
+      })
+      .strict(),
+    ecr: z.object({ storageGbMonth: rate }).strict(),
+    s3: z.object({ storageGbMonth: rate }).strict(),
+    waf: z
+      .object({ webAclMonth: rate, ruleMonth: rate, millionRequests: rate })
+      .strict(),
+    flowLogs: z
+      .object({ cloudwatchGb: rate, s3Gb: rate, parquetGb: rate })
+      .strict(),
+    // Usage that the stack settings cannot tell us, per month
+    usage: z
+      .object({
+        natDataGb: rate,
+        endpointDataGb: rate,
+        loadBalancerLcu: rate,
+        logGbPerTask: rate,
+        buildsPerApplication: rate,
+        buildMinutes: rate,
+        imageStorageGbPerApplication: rate,
+        businessHoursPerMonth: rate,
+        flowLogGb: rate,
+        millionRequests: rate,
+        wafLogGb: rate,
+        transitGatewayDataGb: rate,
+        auroraBusyAcu: rate,
+        auroraMillionIoRequests: rate,
+      })
+      .strict(),
+  })
+  .strict();
+
+export type PriceTable = z.infer<typeof priceTableSchema>;
+
+export function loadPriceTable(region: string): PriceTable {
+  const file = path.join(PRICING_DIR, `${region}.json`);
+  if (!fs.existsSync(file)) {
+    const known = fs
+      .readdirSync(PRICING_DIR)
+      .map((name) => name.replace(/\.json$/, ""));
+    throw new Error(
+      `No price table for ${region} (expected cost/pricing/${region}.json). Known regions: ${known.join(", ")}`
+    );
+  }
+
+  const result = priceTableSchema.safeParse(
+    JSON.parse(fs.readFileSync(file, "utf8"))
+  );
+  if (!result.success) {
+    throw new Error(
+      `Invalid price table ${file}:\n${result.error.issues
+        .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+        .join("\n")}`
+    );
+  }
+  return result.data;
+}
+
+// ==========================================
+// ESTIMATE
+// ==========================================
+
+export interface CostInput {
+  stack: string;
+  settings: StackSettings;
+  features: FeatureFlags;
+  environmentConfig: EnvironmentConfig;
+  applications: ApplicationConfig[];
+}
+
+export interface CostLineItem {
+  category: string;
+  item: string;
+  /** Quantity and unit price the amount was computed from */
+  detail: string;
+  monthly: number;
+  /** Monthly cost with every service at its scaling maximum */
+  peakMonthly: number;
+}
+
+export interface CostEstimate {
+  stack: string;
+  region: string;
+  currency: string;
+  items: CostLineItem[];
+  total: number;
+  peakTotal: number;
+}
+
+function lookup(table: Record<string, number>, key: string, what: string) {
+  const price = table[key];
+  if (price === undefined) {
+    throw new Error(
+      `No ${what} price for "${key}" in the price table; add it to cost/pricing`
+    );
+  }
+  return price;
+}
+
+// Burstable and general purpose classes up to large have 2 vCPUs, doubling
+// with each size after that
+function instanceVcpus(instanceClass: string): number {
+  const size = instanceClass.split(".").pop() ?? "";
+  const multiple = size.match(/^(\d*)xlarge$/);
+  if (!multiple) return 2;
+  return 4 * Number(multiple[1] || 1);
+}
+
+function distinctAzs(subnets: { az: number }[]): number {
+  return new Set(subnets.map((subnet) => subnet.az)).size;
+}
+
+/**
+ * Itemised monthly estimate mirroring what the modules deploy for a stack
+ */
+export function estimateMonthlyCost(
+  input: CostInput,
+  prices: PriceTable
+): CostEstimate {
+  const { settings, features, environmentConfig, applications } = input;
+  const { usage } = prices;
+  const hours = prices.hoursPerMonth;
+  const items: CostLineItem[] = [];
+
+  const add = (
+    category: string,
+    item: string,
+    detail: string,
+    monthly: number,
+    peakMonthly: number = monthly
+  ) => items.push({ category, item, detail, monthly, peakMonthly });
+
+  // ---------- Compute ----------
+  let baselineTasks = 0;
+  for (const app of applications) {
+    const sizing = resolveApplicationSizing({ environmentConfig }, app);
+    const taskHour =
+      (sizing.cpu / 1024) * prices.fargate.vcpuHour +
+      (sizing.memory / 1024) * prices.fargate.gbHour;
+    const tasks = features.enableAutoScaling
+      ? sizing.minInstances
+      : sizing.desiredCount;
+    const peakTasks = features.enableAutoScaling
+      ? sizing.maxInstances
+      : sizing.desiredCount;
+    baselineTasks += tasks;
+
+    add(
+      "compute",
+      `Fargate ${app.name}`,
+      `${tasks}-${peakTasks} tasks x ${sizing.cpu / 1024} vCPU / ${sizing.memory / 1024} GB`,
+      tasks * taskHour * hours,
+      peakTasks * taskHour * hours
+    );
+
+    // scaling.ts keeps one extra task warm during business hours
+    if (
+      features.enableAutoScaling &&
+      sizing.minInstances < sizing.maxInstances
+    ) {
+      add(
+        "compute",
+        `Fargate ${app.name} business hours`,
+        `+1 task x ${usage.businessHoursPerMonth} h`,
+        taskHour * usage.businessHoursPerMonth,
+        0
+      );
+    }
+  }
+
+  // ---------- Network ----------
+  const networkConfig = resolveNetworkConfig(settings);
+  const { subnets, flowLogs, existingVpc, peering } = networkConfig;
+  // An existing VPC's owner may provide the endpoints instead
+  const interfaceEndpoints =
+    existingVpc?.endpoints.interface === false
+      ? []
+      : networkConfig.interfaceEndpoints;
+  // Subnet AZs of an existing VPC are not known offline; assume one subnet
+  // per AZ. Its NAT is paid for by the VPC's owner.
+  const publicAzs = existingVpc
+    ? existingVpc.publicSubnetIds.length
+    : distinctAzs(subnets.public);
+  const privateAzs = existingVpc
+    ? existingVpc.privateSubnetIds.length
+    : distinctAzs(subnets.private);
+
+  const { natInstanceType } = settings.networking;
+  const natMode = existingVpc ? "none" : settings.networking.natMode;
+  const natGateways =
+    natMode === "perAz" ? privateAzs : natMode === "single" ? 1 : 0;
+  if (natMode === "instance") {
+    add(
+      "network",
+      "NAT instance",
+      natInstanceType,
+      lookup(prices.ec2.instanceHour, natInstanceType, "EC2 instance") * hours
+    );
+  } else if (natMode !== "none") {
+    // Processed data is split across the gateways, so it costs the same
+    add(
+      "network",
+      "NAT gateways",
+      `${plural(natGateways, "gateway")} + ${usage.natDataGb} GB processed`,
+      prices.natGateway.hour * natGateways * hours +
+        prices.natGateway.gbProcessed * usage.natDataGb
+    );
+  }
+  const natAddresses = natMode === "none" ? 0 : Math.max(natGateways, 1);
+  add(
+    "network",
+    "Public IPv4 addresses",
+    natAddresses > 0
+      ? `${plural(natAddresses + publicAzs, "address")} (NAT + load balancer)`
+      : `${plural(publicAzs, "address")} (load balancer)`,
+    (natAddresses + publicAzs) * prices.publicIpv4.hour * hours
+  );
+
+  // Each interface endpoint has one attachment per private AZ
+  const endpointAzHours = interfaceEndpoints.length * privateAzs;
+  add(
+    "network",
+    "Interface VPC endpoints",
+    `${plural(interfaceEndpoints.length, "endpoint")} over ${endpointAzHours} AZ attachments + ${usage.endpointDataGb} GB`,
+    endpointAzHours * prices.vpcEndpoint.interfaceAzHour * hours +
+      prices.vpcEndpoint.gbProcessed * usage.endpointDataGb
+  );
+  if (existingVpc?.endpoints.s3 !== false) {
+    add("network", "S3 gateway endpoint", "gateway endpoints are free", 0);
+  }
+  if (peering?.transitGatewayId) {
+    add(
+      "network",
+      "Transit Gateway attachment",
+      `1 attachment + ${usage.transitGatewayDataGb} GB processed`,
+      prices.transitGateway.attachmentHour * hours +
+        prices.transitGateway.gbProcessed * usage.transitGatewayDataGb
+    );
+  }
+  if (peering?.peerVpc) {
+    add(
+      "network",
+      "VPC peering connection",
+      "no hourly charge; cross-AZ transfer not modelled",
+      0
+    );
+  }
+  add(
+    "network",
+    "Application load balancer",
+    `1 ALB + ${usage.loadBalancerLcu} LCU`,
+    (prices.loadBalancer.hour +
+      prices.loadBalancer.lcuHour * usage.loadBalancerLcu) *
+      hours
+  );
+
+  if (flowLogs.enabled) {
+    // Stored volume at steady state: one retention period of logs
+    const storedGb = usage.flowLogGb * (flowLogs.retentionDays / 30);
+    add(
+      "network",
+      "VPC flow logs",
+      flowLogs.destination === "s3"
+        ? `${usage.flowLogGb} GB/month to S3 (Parquet) kept ${flowLogs.retentionDays} days`
+        : `${usage.flowLogGb} GB/month to CloudWatch kept ${flowLogs.retentionDays} days`,
+      flowLogs.destination === "s3"
+        ? usage.flowLogGb * (prices.flowLogs.s3Gb + prices.flowLogs.parquetGb) +
+            storedGb * prices.s3.storageGbMonth
+        : usage.flowLogGb * prices.flowLogs.cloudwatchGb +
+            storedGb * prices.cloudwatch.logStorageGbMonth
+    );
+  }
+
+  // ---------- Database ----------
+  const databaseConfig = resolveDatabaseConfig(settings);
+  // Mirrors hasReadReplica in database.ts
+  const readReplica =
+    databaseConfig.engine === "aurora-serverless-v2"
+      ? databaseConfig.serverless.readers > 0
+      : (databaseConfig.readReplica ?? input.stack === "prod") &&
+        features.enableBackups;
+  if (databaseConfig.engine === "aurora-serverless-v2") {
+    // Every instance (writer and readers) scales on its own: at the minimum
+    // outside business hours, at the assumed busy ACUs during them
+    const { serverless } = databaseConfig;
+    const instances = 1 + serverless.readers;
+    const busyAcu = Math.min(
+      Math.max(usage.auroraBusyAcu, serverless.minCapacity),
+      serverless.maxCapacity
+    );
+    const acuHours =
+      serverless.minCapacity * (hours - usage.businessHoursPerMonth) +
+      busyAcu * usage.businessHoursPerMonth;
+    add(
+      "database",
+      "Aurora Serverless v2",
+      `${plural(instances, "instance")} x ${serverless.minCapacity}-${serverless.maxCapacity} ACU (${busyAcu} ACU in business hours)`,
+      instances * acuHours * prices.aurora.serverlessAcuHour,
+      instances *
+        serverless.maxCapacity *
+        hours *
+        prices.aurora.serverlessAcuHour
+    );
+    // Aurora bills the data actually stored, once for the whole cluster
+    add(
+      "database",
+      "Aurora storage and I/O",
+      `${environmentConfig.dbAllocatedStorage} GB + ${usage.auroraMillionIoRequests}M I/O requests`,
+      environmentConfig.dbAllocatedStorage * prices.aurora.storageGbMonth +
+        usage.auroraMillionIoRequests * prices.aurora.millionIoRequests,
+      environmentConfig.dbMaxAllocatedStorage * prices.aurora.storageGbMonth +
+        usage.auroraMillionIoRequests * prices.aurora.millionIoRequests
+    );
+    if (databaseConfig.proxy.enabled) {
+      // Billed per ACU of the cluster, with a minimum per hour
+      const minimumAcuHours = prices.rdsProxy.minimumAcus * hours;
+      add(
+        "database",
+        "RDS Proxy",
+        `cluster ACUs, at least ${prices.rdsProxy.minimumAcus}`,
+        Math.max(instances * acuHours, minimumAcuHours) *
+          prices.rdsProxy.unitHour,
+        Math.max(instances * serverless.maxCapacity * hours, minimumAcuHours) *
+          prices.rdsProxy.unitHour
+      );
+    }
+  } else {
+    const dbInstanceHour = lookup(
+      prices.rds.instanceHour,
+      environmentConfig.dbInstanceClass,
+      "RDS instance"
+    );
+    // database.ts enables Multi-AZ and the read replica for prod only
+    const multiAz = input.stack === "prod";
+    const dbCopies = multiAz ? prices.rds.multiAzMultiplier : 1;
+    add(
+      "database",
+      "RDS PostgreSQL primary",
+      `${environmentConfig.dbInstanceClass}${multiAz ? " Multi-AZ" : ""}`,
+      dbInstanceHour * dbCopies * hours
+    );
+    add(
+      "database",
+      "RDS gp3 storage",
+      `${environmentConfig.dbAllocatedStorage} GB${multiAz ? " x 2 AZs" : ""}`,
+      environmentConfig.dbAllocatedStorage * prices.rds.gp3GbMonth * dbCopies,
+      environmentConfig.dbMaxAllocatedStorage * prices.rds.gp3GbMonth * dbCopies
+    );
+    if (readReplica) {
+      add(
+        "database",
+        "RDS read replica",
+        `${environmentConfig.dbInstanceClass} + ${environmentConfig.dbAllocatedStorage} GB`,
+        dbInstanceHour * hours +
+          environmentConfig.dbAllocatedStorage * prices.rds.gp3GbMonth,
+        dbInstanceHour * hours +
+          environmentConfig.dbMaxAllocatedStorage * prices.rds.gp3GbMonth
+      );
+    }
+    if (databaseConfig.proxy.enabled) {
+      // Billed per vCPU of the primary instance, with a minimum per hour
+      const vcpus = Math.max(
+        instanceVcpus(environmentConfig.dbInstanceClass),
+        prices.rdsProxy.minimumVcpus
+      );
+      add(
+        "database",
+        "RDS Proxy",
+        `${vcpus} vCPUs`,
+        vcpus * prices.rdsProxy.unitHour * hours
+      );
+    }
+  }
+
+  // ---------- Observability ----------
+  const logIngestGb = baselineTasks * usage.logGbPerTask;
+  add(
+    "observability",
+    "CloudWatch Logs",
+    `${logIngestGb} GB/month kept ${environmentConfig.logRetentionDays} days`,
+    logIngestGb * prices.cloudwatch.logIngestGb +
+      logIngestGb *
+        (environmentConfig.logRetentionDays / 30) *
+        prices.cloudwatch.logStorageGbMonth
+  );
+
+  const dashboards = features.enableDetailedMonitoring ? 2 : 1;
+  add(
+    "observability",
+    "CloudWatch dashboards",
+    plural(dashboards, "dashboard"),
+    dashboards * prices.cloudwatch.dashboardMonth
+  );
+
+  const alarms =
+    4 +
+    (features.enableAutoScaling ? 2 * applications.length : 0) +
+    (features.enableTailscale ? 1 : 0);
+  add(
+    "observability",
+    "CloudWatch alarms",
+    plural(alarms, "alarm"),
+    alarms * prices.cloudwatch.alarmMonth
+  );
+
+  // ---------- Security ----------
+  const generatedSecrets = applications.reduce(
+    (count, app) =>
+      count +
+      Object.values(app.secrets ?? {}).filter(
+        (secret) => "generate" in secret || "value" in secret
+      ).length,
+    0
+  );
+  // Master, migration and app database credentials, plus the replica URL
+  const secrets =
+    3 +
+    (readReplica ? 1 : 0) +
+    generatedSecrets +
+    (features.enableTailscale ? 1 : 0) +
+    (features.enableBetterStack ? 1 : 0);
+  add(
+    "security",
+    "Secrets Manager",
+    plural(secrets, "secret"),
+    secrets * prices.secretsManager.secretMonth
+  );
+
+  const { security } = settings;
+  if (security.kms.enabled) {
+    // kms.ts: data, logs, secrets and artifacts. Requests ($0.03 per 10,000
+    // after the free 20,000) are left out.
+    add(
+      "security",
+      "KMS keys",
+      plural(4, "customer-managed key"),
+      4 * prices.kms.keyMonth
+    );
+  }
+  if (security.enableWaf) {
+    // waf.ts: rate limit, three managed rule groups and the optional allowlist
+    const wafRules = 4 + (security.waf.ipAllowlist ? 1 : 0);
+    add(
+      "security",
+      "WAF web ACL",
+      `${plural(wafRules, "rule")} + ${usage.millionRequests}M requests`,
+      prices.waf.webAclMonth +
+        wafRules * prices.waf.ruleMonth +
+        usage.millionRequests * prices.waf.millionRequests
+    );
+    add(
+      "security",
+      "WAF logs",
+      `${usage.wafLogGb} GB/month kept ${security.waf.logRetentionDays} days`,
+      usage.wafLogGb * prices.cloudwatch.logIngestGb +
+        usage.wafLogGb *
+          (security.waf.logRetentionDays / 30) *
+          prices.cloudwatch.logStorageGbMonth
+    );
+  }
+
+  // ---------- Build and storage ----------
+  if (features.enableCodeBuild) {
+    const minutes =
+      applications.length * usage.buildsPerApplication * usage.buildMinutes;
+    add(
+      "build",
+      "CodeBuild",
+      `${minutes} min on ${environmentConfig.codeBuildInstanceType}`,
+      minutes *
+        lookup(
+          prices.codebuild.minute,
+          environmentConfig.codeBuildInstanceType,
+          "CodeBuild"
+        )
+    );
+  }
+  add(
+    "storage",
+    "ECR images",
+    `${applications.length * usage.imageStorageGbPerApplication} GB`,
+    applications.length *
+      usage.imageStorageGbPerApplication *
+      prices.ecr.storageGbMonth
+  );
+
+  // ---------- Optional infrastructure ----------
+  if (features.enableTailscale) {
+    add(
+      "access",
+      "Tailscale subnet router",
+      environmentConfig.tailscaleInstanceType,
+      lookup(
+        prices.ec2.instanceHour,
+        environmentConfig.tailscaleInstanceType,
+        "EC2 instance"
+      ) * hours
+    );
+  }
+
+  const sum = (key: "monthly" | "peakMonthly") =>
+    items.reduce((total, item) => total + item[key], 0);
+
+  return {
+    stack: input.stack,
+    region: prices.region,
+    currency: prices.currency,
+    items,
+    total: sum("monthly"),
+    peakTotal: sum("peakMonthly"),
+  };
+}
+
+// ==========================================
+// FORMATTING
+// ==========================================
+
+function money(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function signed(amount: number): string {
+  return `${amount >= 0 ? "+" : "-"}${money(Math.abs(amount))}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : noun.endsWith("s") ? "es" : "s"}`;
+}
+
+// Text columns are left-aligned, amounts right-aligned
+function table(rows: string[][], leftAligned: number[]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          leftAligned.includes(column)
+            ? cell.padEnd(widths[column])
+            : cell.padStart(widths[column])
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+export function formatEstimate(estimate: CostEstimate): string {
+  const rows = [
+    ["Category", "Item", "Monthly", "At max", "Detail"],
+    ...estimate.items.map((item) => [
+      item.category,
+      item.item,
+      money(item.monthly),
+      money(item.peakMonthly),
+      item.detail,
+    ]),
+    ["", "Total", money(estimate.total), money(estimate.peakTotal), ""],
+  ];
+  return [
+    `Estimated monthly cost for ${estimate.stack} (${estimate.region}, ${estimate.currency})`,
+    "",
+    table(rows, [0, 1, 4]),
+  ].join("\n");
+}
+
+export function formatDiff(before: CostEstimate, after: CostEstimate): string {
+  const key = (item: CostLineItem) => `${item.category}/${item.item}`;
+  const beforeItems = new Map(before.items.map((item) => [key(item), item]));
+  const afterItems = new Map(after.items.map((item) => [key(item), item]));
+  const keys = [...new Set([...beforeItems.keys(), ...afterItems.keys()])];
+
+  const rows = [["Category", "Item", before.stack, after.stack, "Change"]];
+  for (const itemKey of keys) {
+    const a = beforeItems.get(itemKey);
+    const b = afterItems.get(itemKey);
+    const aMonthly = a?.monthly ?? 0;
+    const bMonthly = b?.monthly ?? 0;
+    if (Math.abs(bMonthly - aMonthly) < 0.005) {
+      continue;
+    }
+    // Every key comes from one of the two estimates
+    const item = a ?? b;
+    if (!item) {
+      throw new Error(`No line item for ${itemKey} in either estimate`);
+    }
+    rows.push([
+      item.category,
+      item.item,
+      a ? money(aMonthly) : "-",
+      b ? money(bMonthly) : "-",
+      signed(bMonthly - aMonthly),
+    ]);
+  }
+  rows.push([
+    "",
+    "Total",
+    money(before.total),
+    money(after.total),
+    signed(after.total - before.total),
+  ]);
+  rows.push([
+    "",
+    "Total at max",
+    money(before.peakTotal),
+    money(after.peakTotal),
+    signed(after.peakTotal - before.peakTotal),
+  ]);
+
+  return [
+    `Estimated monthly cost: ${before.stack} -> ${after.stack} (${after.currency})`,
+    "",
+    table(rows, [0, 1]),
+  ].join("\n");
+}
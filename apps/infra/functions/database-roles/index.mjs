@@ -0,0 +1,154 @@
+// Creates the migration and application roles described by their secrets.
+// Pulumi invokes it inside the VPC after every change to the database or the
+// secrets (modules/database-roles.ts); every statement is safe to repeat.
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import pg from "pg";
+
+const secretsManager = new SecretsManagerClient({});
+
+async function readSecret(secretId) {
+  const { SecretString } = await secretsManager.send(
+    new GetSecretValueCommand({ SecretId: secretId })
+  );
+  return JSON.parse(SecretString);
+}
+
+export async function handler(event) {
+  const [admin, migration, app] = await Promise.all([
+    readSecret(event.adminSecretArn),
+    readSecret(event.migrationSecretArn),
+    readSecret(event.appSecretArn),
+  ]);
+
+  const client = new pg.Client({
+    host: admin.host,
+    port: Number(admin.port),
+    user: admin.username,
+    password: admin.password,
+    database: admin.dbname,
+    ssl: { rejectUnauthorized: false },
+  });
+  await client.connect();
+
+  const id = (name) => client.escapeIdentifier(name);
+  const schema = id(event.schema);
+  const migrator = id(migration.username);
+  const appRole = id(app.username);
+  const run = (sql, values) => client.query(sql, values);
+
+  try {
+    await run("BEGIN");
+
+    // Passwords come from the current secret versions, so re-running after a
+    // rotation keeps them in sync
+    for (const role of [migration, app]) {
+      const { rowCount } = await run(
+        "SELECT 1 FROM pg_roles WHERE rolname = $1",
+        [role.username]
+      );
+      await run(
+        `${rowCount ? "ALTER" : "CREATE"} ROLE ${id(role.username)} WITH LOGIN PASSWORD ${client.escapeLiteral(role.password)}`
+      );
+      await run(
+        `GRANT CONNECT ON DATABASE ${id(admin.dbname)} TO ${id(role.username)}`
+      );
+      await run(`GRANT USAGE ON SCHEMA ${schema} TO ${id(role.username)}`);
+    }
+
+    // Migrations own the schema's objects (DDL); the master user keeps
+    // access through membership, which RDS also needs to change owners
+    await run(`GRANT CREATE ON SCHEMA ${schema} TO ${migrator}`);
+    await run(`GRANT ${migrator} TO CURRENT_USER`);
+
+    // Hand over objects the master user created before the roles existed.
+    // Sequences owned by a column move with their table.
+    const { rows } = await run(
+      `SELECT format('ALTER %s %I.%I OWNER TO %I',
+                CASE c.relkind WHEN 'S' THEN 'SEQUENCE' WHEN 'v' THEN 'VIEW'
+                  WHEN 'm' THEN 'MATERIALIZED VIEW' ELSE 'TABLE' END,
+                n.nspname, c.relname, $2::text) AS statement
+         FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = $1
+          AND c.relkind IN ('r', 'p', 'v', 'm', 'S')
+          AND c.relowner = (SELECT oid FROM pg_roles WHERE rolname = CURRENT_USER)
+          AND NOT EXISTS (
+            SELECT 1 FROM pg_depend d
+             WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+               AND d.deptype IN ('a', 'i'))
+       UNION ALL
+       SELECT format('ALTER TYPE %I.%I OWNER TO %I', n.nspname, t.typname, $2::text)
+         FROM pg_type t
+         JOIN pg_namespace n ON n.oid = t.typnamespace
+        WHERE n.nspname = $1
+          AND t.typtype = 'e'
+          AND t.typowner = (SELECT oid FROM pg_roles WHERE rolname = CURRENT_USER)`,
+      [event.schema, migration.username]
+    );
+    for (const { statement } of rows) {
+      await run(statement);
+    }
+
+    // The application only reads and writes data, including in tables that
+    // later migrations create
+    const dml = "SELECT, INSERT, UPDATE, DELETE";
+    await run(`GRANT ${dml} ON ALL TABLES IN SCHEMA ${schema} TO ${appRole}`);
+    await run(
+      `GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA ${schema} TO ${appRole}`
+    );
+    await run(
+      `ALTER DEFAULT PRIVILEGES FOR ROLE ${migrator} IN SCHEMA ${schema} GRANT ${dml} ON TABLES TO ${appRole}`
+    );
+    await run(
+      `ALTER DEFAULT PRIVILEGES FOR ROLE ${migrator} IN SCHEMA ${schema} GRANT USAGE, SELECT ON SEQUENCES TO ${appRole}`
+    );
+
+    // pgaudit (audit-prod profile): object logging covers whatever
+    // rds_pgaudit is granted, so it gets the application's rights on every
+    // table, including those later migrations create. The extension needs
+    // the library preloaded, which takes a reboot after the parameter group
+    // changes.
+    let pgaudit;
+    if (event.audit) {
+      const { rowCount: auditRole } = await run(
+        "SELECT 1 FROM pg_roles WHERE rolname = 'rds_pgaudit'"
+      );
+      if (!auditRole) {
+        await run("CREATE ROLE rds_pgaudit");
+      }
+      await run(
+        `GRANT ${dml} ON ALL TABLES IN SCHEMA ${schema} TO rds_pgaudit`
+      );
+      await run(
+        `ALTER DEFAULT PRIVILEGES FOR ROLE ${migrator} IN SCHEMA ${schema} GRANT ${dml} ON TABLES TO rds_pgaudit`
+      );
+      const { rows: preload } = await run(
+        `SELECT 'pgaudit' = ANY(string_to_array(
+           replace(current_setting('shared_preload_libraries'), ' ', ''), ','
+         )) AS loaded`
+      );
+      if (preload[0].loaded) {
+        await run("CREATE EXTENSION IF NOT EXISTS pgaudit");
+        pgaudit = "enabled";
+      } else {
+        pgaudit = "pending-reboot";
+      }
+    }
+
+    await run("COMMIT");
+    return {
+      migrationRole: migration.username,
+      appRole: app.username,
+      transferred: rows.length,
+      pgaudit,
+    };
+  } catch (error) {
+    await run("ROLLBACK");
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
@@ -1,106 +1,122 @@
 import * as pulumi from "@pulumi/pulumi";
 // import * as tailscale from "@pulumi/tailscale";  // Available for future Tailscale provider usage
+import { applications } from "./applications";
+import { createApplication, validateApplications } from "./modules/application";
 import { createBuildSystem } from "./modules/build";
 import { createConfig } from "./modules/config";
-import { createContainer } from "./modules/container";
+import { createCluster } from "./modules/container";
 import { createDatabase } from "./modules/database";
+import { createFlowLogs } from "./modules/flow-logs";
 import { createGithubOidc } from "./modules/github-oidc";
+import { createKms, unmigratedResources } from "./modules/kms";
 import { createLoadBalancer } from "./modules/loadbalancer";
 import { createMonitoring } from "./modules/monitoring";
 import { createNetworking } from "./modules/networking";
-import { createScaling } from "./modules/scaling";
+import { createPeering } from "./modules/peering";
 import { createTailscale } from "./modules/tailscale";
+import { createWaf } from "./modules/waf";
 
 // ==========================================
-// FEATURE CONFIGURATION
+// INFRASTRUCTURE CONFIGURATION
 // ==========================================
-const pathfinderConfig = new pulumi.Config("pathfinder");
-const enableTailscale = pathfinderConfig.getBoolean("enableTailscale") ?? false;
-const enableBetterStack =
-  pathfinderConfig.getBoolean("enableBetterStack") ?? false;
-const enableDetailedMonitoring =
-  pathfinderConfig.getBoolean("enableDetailedMonitoring") ?? false;
+const config = createConfig();
+validateApplications(applications);
+const defaultApplication = applications.find((app) => app.routing?.default);
+if (!defaultApplication) {
+  throw new Error("applications.ts needs an application with routing.default");
+}
 
 // ==========================================
-// INFRASTRUCTURE CONFIGURATION
+// FEATURE CONFIGURATION
 // ==========================================
-const config = createConfig();
+const {
+  enableCodeBuild,
+  enableTailscale,
+  enableBetterStack,
+  enableDetailedMonitoring,
+} = config.features;
 
 // ==========================================
 // CORE INFRASTRUCTURE (ALWAYS DEPLOYED)
 // ==========================================
 
-// 1. Foundation Layer - VPC, Subnets, Security Groups
-const network = createNetworking(config);
+// 1. Encryption - Customer-managed KMS keys per domain (Optional)
+const kms = config.securityConfig.kms.enabled ? createKms(config) : undefined;
 
-// 2. Data Layer - Private RDS PostgreSQL
-const database = createDatabase(config, network);
+// 2. Foundation Layer - VPC, Subnets, Security Groups
+const network = createNetworking(config, kms);
 
-// 3. Load Balancing - ALB with Health Checks (create target group first)
-const loadBalancer = createLoadBalancer(config, network);
+// 3. Data Layer - Private RDS PostgreSQL
+const database = createDatabase(config, network, kms);
 
-// 4. Container Platform - ECR, ECS Cluster (with load balancer integration)
-const container = createContainer(config, network, database, loadBalancer);
+// 4. Load Balancing - ALB with Health Checks (default app's target group)
+const loadBalancer = createLoadBalancer(config, network, defaultApplication);
 
-// 5. Build System - CodeBuild with VPC Database Access
-const build = createBuildSystem(config, network, database, container);
+// 5. Container Platform - ECS Cluster shared by all applications
+const cluster = createCluster(config);
 
-// 6. Auto-scaling - ECS Service Scaling
-const scaling = createScaling(config, container, loadBalancer);
+// 6. Build System - CodeBuild role with VPC Database Access (Optional)
+const build = enableCodeBuild
+  ? createBuildSystem(config, network, database)
+  : undefined;
 
-// 7. GitHub OIDC - For GitHub Actions authentication
+// 7. Applications - ECR, ECS Service, Auto-scaling and CodeBuild project each
+const deployedApplications = applications.map((app) =>
+  createApplication(
+    config,
+    network,
+    database,
+    cluster,
+    loadBalancer,
+    app,
+    build,
+    kms
+  )
+);
+const defaultDeployment = deployedApplications.find(
+  (app) => app.name === defaultApplication.name
+);
+if (!defaultDeployment) {
+  throw new Error(
+    `Default application "${defaultApplication.name}" was not deployed`
+  );
+}
+const container = defaultDeployment.container;
+
+// 8. GitHub OIDC - For GitHub Actions authentication
 const githubOidc = createGithubOidc(config);
 
 // ==========================================
 // OPTIONAL INFRASTRUCTURE (FEATURE-GATED)
 // ==========================================
 
-// 8. Development Access - Tailscale Subnet Router (Optional)
+// 9. Development Access - Tailscale Subnet Router (Optional)
 const tailscale = enableTailscale
-  ? createTailscale(config, network, database)
+  ? createTailscale(config, network, database, kms)
+  : undefined;
+
+// 10. Private Connectivity - Transit Gateway / VPC peering (Optional)
+const peering = config.networkConfig.peering
+  ? createPeering(config, network, config.networkConfig.peering)
+  : undefined;
+
+// 11. Network Audit - VPC Flow Logs with saved queries (Optional)
+const flowLogs = config.networkConfig.flowLogs.enabled
+  ? createFlowLogs(config, network, kms)
   : undefined;
 
-// 9. Observability - Better Stack + CloudWatch (Optional/Configurable)
+// 12. Edge Protection - WAFv2 WebACL on the ALB (Optional)
+const waf = config.securityConfig.enableWaf
+  ? createWaf(config, loadBalancer, kms)
+  : undefined;
+
+// 13. Observability - Better Stack + CloudWatch (Optional/Configurable)
 const monitoring = createMonitoring(config, database, container, loadBalancer, {
   enableBetterStack,
   enableDetailedMonitoring,
+  kms,
 });
 
-// ==========================================
-// MULTI-APPLICATION DEPLOYMENT
-// ==========================================
-
-const applications = [
-  {
-    name: "pathfinder-web",
-    contextPath: "../web",
-    requiresDatabaseAccess: true,
-    dependsOnMigrations: true,
-    buildCommand: "npm run build",
-    healthCheckPath: "/health",
-    environmentVariables: {
-      NODE_ENV: "production",
-      HOSTNAME: "0.0.0.0",
-      PORT: "3000",
-    },
-    resourceRequirements: {
-      cpu: 1024,
-      memory: 2048,
-    },
-    scaling: {
-      minInstances: 2,
-      maxInstances: 10,
-      targetCpuPercent: 60,
-    },
-  },
-];
-
-// Deploy configured applications
-// TODO: Implement createApplicationDeployment in build module
-const deployments = applications.map((app) =>
-  build.createApplicationDeployment(app, database, container)
-);
-
 // ==========================================
 // STACK OUTPUTS (COMPREHENSIVE AS PER PROPOSAL)
 // ==========================================
@@ -111,24 +127,49 @@ export const albDns = loadBalancer.albDnsName;
 export const applicationUrl = loadBalancer.applicationUrl;
 export const environment = config.environment;
 
+// Subnet layout (planned or pinned), shown by every preview
+export const subnetPlan = config.networkConfig.subnets;
+
 // Infrastructure details
 export const ecrRepositoryUrl = container.repositoryUrl;
 export const ecsClusterName = container.clusterName;
 export const ecsServiceName = container.serviceName;
+// Empty without enableCodeBuild; the deploy scripts then skip the build
+export const codebuildProjectName =
+  defaultDeployment.deployment?.buildProject ?? "";
+
+// Per-application details, keyed by application name
+export const applicationOutputs = Object.fromEntries(
+  deployedApplications.map((app) => [
+    app.name,
+    {
+      serviceName: app.container.serviceName,
+      repositoryUrl: app.container.repositoryUrl,
+      containerName: app.container.containerName,
+      logGroupName: app.container.logGroupName,
+      codebuildProjectName: app.deployment?.buildProject,
+    },
+  ])
+);
 
 // Database connection information
 export const database_endpoint = database.endpoint;
 export const database_port = pulumi.output(5432);
 export const database_name = database.dbName;
 export const database_username = database.username;
+// Applications connect here when database.proxy is enabled
+export const database_proxy_endpoint = database.proxyEndpoint;
+// Target and running engine version, and how a major upgrade is applied
+export const database_engine_upgrade = database.engineUpgrade;
 
 // Tailscale-accessible database information (if Tailscale enabled)
 export const tailscale_enabled = enableTailscale;
 export const tailscale_database_host = enableTailscale
   ? database.endpoint
   : undefined;
-export const tailscale_database_url = enableTailscale
-  ? pulumi.interpolate`postgresql://${database.username}:${database.password}@${database.endpoint}:5432/${database.dbName}?sslmode=require`
+// Credentials for the connection; the password rotates
+export const tailscale_database_secret_arn = enableTailscale
+  ? database.secretArn
   : undefined;
 export const tailscale_router_ip = enableTailscale
   ? tailscale?.instancePrivateIp
@@ -138,10 +179,41 @@ export const tailscale_connection_guide = enableTailscale
 # Connect to database through Tailscale:
 # 1. Ensure you're connected to Tailscale network
 # 2. Use this connection string: postgresql://${database.username}:[PASSWORD]@${database.endpoint}:5432/${database.dbName}?sslmode=require
-# 3. Get password with: pulumi stack output database_password --show-secrets
+# 3. Get the current password (rotated) with: aws secretsmanager get-secret-value --secret-id ${database.secretArn} --query SecretString
 `
   : "Tailscale not enabled for this environment";
 
+// Flow log storage and saved queries (if enabled)
+export const flowLogsOutputs = flowLogs && {
+  destination: flowLogs.destination,
+  bucketName: flowLogs.bucketName,
+  athenaWorkgroup: flowLogs.athenaWorkgroup,
+  glueTable: flowLogs.glueTable
+    ? pulumi.interpolate`${flowLogs.glueDatabase}.${flowLogs.glueTable}`
+    : undefined,
+  logGroupName: flowLogs.logGroupName,
+  savedQueries: flowLogs.savedQueries,
+};
+
+// Security group flows: markdown matrix and the flat list behind it
+export const connectivityMatrix = network.connectivity.markdown;
+export const connectivityFlows = network.connectivity.entries;
+
+// Private connectivity (if configured)
+export const transitGatewayAttachmentId = peering?.transitGatewayAttachmentId;
+export const vpcPeeringConnectionId = peering?.vpcPeeringConnectionId;
+export const vpcPeeringAcceptanceRequired = peering?.peeringAcceptanceRequired;
+
+// Customer-managed keys (if enabled), and what still uses AWS-managed or
+// default encryption; see "Encryption Keys" in the README
+export const kmsKeys = kms;
+export const kmsUnmigrated =
+  kms && unmigratedResources(config, kms, database, deployedApplications);
+
+// WAF information (if enabled)
+export const wafWebAclArn = waf?.webAclArn;
+export const wafLogGroupName = waf?.logGroupName;
+
 // Better Stack information (if enabled)
 export const betterstack_enabled = enableBetterStack;
 export const betterstack_lambda_arn = enableBetterStack
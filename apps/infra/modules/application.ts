@@ -0,0 +1,143 @@
+import {
+  ApplicationConfig,
+  ApplicationOutputs,
+  BuildSystemOutputs,
+  ClusterOutputs,
+  CommonConfig,
+  DatabaseOutputs,
+  KmsOutputs,
+  LoadBalancerOutputs,
+  NetworkOutputs,
+} from "../types";
+import { createContainer } from "./container";
+import { createApplicationRoute } from "./loadbalancer";
+import { createScaling } from "./scaling";
+
+const APPLICATION_NAME_PATTERN = /^[a-z][a-z0-9-]{0,19}$/;
+const ENVIRONMENT_VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check the application list before any resources are declared
+ */
+export function validateApplications(applications: ApplicationConfig[]): void {
+  const errors: string[] = [];
+
+  const names = new Set<string>();
+  for (const app of applications) {
+    if (!APPLICATION_NAME_PATTERN.test(app.name)) {
+      errors.push(
+        `"${app.name}": names must be 1-20 lowercase letters, digits and dashes`
+      );
+    }
+    if (names.has(app.name)) {
+      errors.push(`"${app.name}": duplicate application name`);
+    }
+    names.add(app.name);
+  }
+
+  for (const app of applications) {
+    for (const name of Object.keys(app.secrets ?? {})) {
+      if (!ENVIRONMENT_VARIABLE_PATTERN.test(name)) {
+        errors.push(
+          `"${app.name}": secret ${name} is not a valid variable name`
+        );
+      }
+      if (name in app.environmentVariables) {
+        errors.push(
+          `"${app.name}": ${name} is both a secret and an environment variable`
+        );
+      }
+      if (name === "DATABASE_URL" && app.requiresDatabaseAccess) {
+        errors.push(
+          `"${app.name}": DATABASE_URL is injected by requiresDatabaseAccess`
+        );
+      }
+    }
+  }
+
+  const defaults = applications.filter((app) => app.routing?.default);
+  if (defaults.length !== 1) {
+    errors.push(
+      `exactly one application needs routing.default (found ${defaults.length})`
+    );
+  }
+
+  if (applications.filter((app) => app.legacyAliases).length > 1) {
+    errors.push("only one application can set legacyAliases");
+  }
+
+  const priorities = new Map<number, string>();
+  for (const app of applications) {
+    const routing = app.routing;
+    if (!routing || routing.default) {
+      continue;
+    }
+    if (!routing.pathPatterns?.length && !routing.hostHeaders?.length) {
+      errors.push(`"${app.name}": routing needs pathPatterns or hostHeaders`);
+    }
+    if (routing.priority === undefined) {
+      errors.push(`"${app.name}": routing.priority is required`);
+    } else if (priorities.has(routing.priority)) {
+      errors.push(
+        `"${app.name}": routing.priority ${routing.priority} is already used by "${priorities.get(routing.priority)}"`
+      );
+    } else {
+      priorities.set(routing.priority, app.name);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid applications:\n${errors.map((error) => `  - ${error}`).join("\n")}`
+    );
+  }
+}
+
+/**
+ * Deploy one application: ALB route, ECS service, auto-scaling and build project
+ */
+export function createApplication(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  database: DatabaseOutputs,
+  cluster: ClusterOutputs,
+  loadBalancer: LoadBalancerOutputs,
+  app: ApplicationConfig,
+  build?: BuildSystemOutputs,
+  kms?: KmsOutputs
+): ApplicationOutputs {
+  // The default app owns the ALB's default target group; others get a rule
+  const targetGroupArn = app.routing?.default
+    ? loadBalancer.targetGroupArn
+    : app.routing
+      ? createApplicationRoute(config, network, loadBalancer, app)
+      : undefined;
+
+  const container = createContainer(
+    config,
+    network,
+    database,
+    cluster,
+    app,
+    targetGroupArn,
+    kms
+  );
+
+  const scaling = config.features.enableAutoScaling
+    ? createScaling(config, app, container, loadBalancer, targetGroupArn)
+    : undefined;
+
+  const deployment = build?.createApplicationDeployment(
+    app,
+    database,
+    container
+  );
+
+  return {
+    name: app.name,
+    container,
+    targetGroupArn,
+    scaling,
+    deployment,
+  };
+}
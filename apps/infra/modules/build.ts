@@ -1,23 +1,35 @@
 import * as aws from "@pulumi/aws";
 import * as pulumi from "@pulumi/pulumi";
 import {
+  ApplicationConfig,
+  ApplicationDeployment,
+  BuildSystemOutputs,
   CommonConfig,
   ContainerOutputs,
   DatabaseOutputs,
   NetworkOutputs,
 } from "../types";
+import {
+  createApplicationName,
+  createPhysicalName,
+  legacyAliasOptions,
+  resolveApplicationSizing,
+} from "../utils";
 
 export function createBuildSystem(
   config: CommonConfig,
   network: NetworkOutputs,
-  database: DatabaseOutputs,
-  container: ContainerOutputs
-) {
-  const { commonTags } = config;
+  database: DatabaseOutputs
+): BuildSystemOutputs {
+  const { commonTags, environmentConfig } = config;
 
   // IAM Service Role for CodeBuild
   const codebuildRole = new aws.iam.Role("pathfinder-codebuild-role", {
-    name: "pathfinder-codebuild-role",
+    name: createPhysicalName(
+      config,
+      "codebuild-role",
+      "pathfinder-codebuild-role"
+    ),
     assumeRolePolicy: JSON.stringify({
       Version: "2012-10-17",
       Statement: [
@@ -42,7 +54,7 @@ export function createBuildSystem(
     "pathfinder-codebuild-policy",
     {
       role: codebuildRole.id,
-      policy: database.secretArn.apply((secretArn) =>
+      policy: database.migrationSecretArn.apply((secretArn) =>
         JSON.stringify({
           Version: "2012-10-17",
           Statement: [
@@ -101,20 +113,17 @@ export function createBuildSystem(
     }
   );
 
-  // CodeBuild project for building application image (requires database access)
-  const appProject = new aws.codebuild.Project("pathfinder-app-build", {
-    name: "pathfinder-app-build",
-    description: "Build application Docker image with database access",
-    serviceRole: codebuildRole.arn,
-    artifacts: {
-      type: "NO_ARTIFACTS",
-    },
-    environment: {
-      computeType: "BUILD_GENERAL1_MEDIUM",
-      image: "aws/codebuild/standard:7.0",
-      type: "LINUX_CONTAINER",
-      privilegedMode: true, // Required for Docker builds
-      environmentVariables: [
+  // Application deployment function: one CodeBuild project per application,
+  // sharing the role above
+  function createApplicationDeployment(
+    app: ApplicationConfig,
+    database: DatabaseOutputs,
+    container: ContainerOutputs
+  ): ApplicationDeployment {
+    const sizing = resolveApplicationSizing(config, app);
+
+    const environmentVariables: aws.types.input.codebuild.ProjectEnvironmentEnvironmentVariable[] =
+      [
         {
           name: "AWS_ACCOUNT_ID",
           value: aws.getCallerIdentityOutput().accountId,
@@ -122,12 +131,7 @@ export function createBuildSystem(
         },
         {
           name: "IMAGE_REPO_NAME",
-          value: "pathfinder",
-          type: "PLAINTEXT",
-        },
-        {
-          name: "DATABASE_URL",
-          value: database.connectionString,
+          value: container.repositoryName,
           type: "PLAINTEXT",
         },
         {
@@ -145,6 +149,16 @@ export function createBuildSystem(
           value: container.serviceName,
           type: "PLAINTEXT",
         },
+        {
+          name: "CONTAINER_NAME",
+          value: container.containerName,
+          type: "PLAINTEXT",
+        },
+        {
+          name: "RUN_MIGRATIONS",
+          value: app.dependsOnMigrations ? "true" : "false",
+          type: "PLAINTEXT",
+        },
         {
           name: "AWS_DEFAULT_REGION",
           value: config.awsRegion,
@@ -155,80 +169,105 @@ export function createBuildSystem(
           value: process.env.NODE_ENV || "production",
           type: "PLAINTEXT",
         },
-      ],
-    },
-    vpcConfig: {
-      vpcId: network.vpcId,
-      subnets: network.privateSubnetIds,
-      securityGroupIds: [network.securityGroups.codeBuild],
-    },
-    source: {
-      type: "GITHUB",
-      location: `https://github.com/${config.githubOrg}/${config.githubRepo}.git`,
-      buildspec: "apps/web/buildspec.yml",
-      gitCloneDepth: 1,
-    },
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-app-build",
-      Type: "codebuild-project",
-      Purpose: "application-image-build",
-    },
-  });
-
-  // Additional IAM permissions for ECS deployment
-  const ecsDeployPolicy = new aws.iam.RolePolicy(
-    "pathfinder-ecs-deploy-policy",
-    {
-      role: codebuildRole.id,
-      policy: pulumi
-        .all([container.taskExecutionRoleArn, container.taskRoleArn])
-        .apply(([taskExecRoleArn, taskRoleArn]: [string, string]) =>
-          JSON.stringify({
-            Version: "2012-10-17",
-            Statement: [
-              {
-                Effect: "Allow",
-                Action: [
-                  "ecs:UpdateService",
-                  "ecs:DescribeServices",
-                  "ecs:DescribeTasks",
-                  "ecs:DescribeTaskDefinition",
-                  "ecs:RegisterTaskDefinition",
-                ],
-                Resource: "*",
-              },
-              {
-                Effect: "Allow",
-                Action: ["iam:PassRole"],
-                Resource: [taskExecRoleArn, taskRoleArn],
-              },
-            ],
-          })
-        ),
+      ];
+    // Resolved by CodeBuild from the keys of the migration role's RDS JSON
+    // secret at build time, so credentials never appear in the project
+    // definition and always match the latest rotation. The buildspec
+    // assembles DATABASE_URL.
+    if (app.requiresDatabaseAccess) {
+      const secretKeys = {
+        DATABASE_HOST: "host",
+        DATABASE_PORT: "port",
+        DATABASE_USER: "username",
+        DATABASE_PASSWORD: "password",
+        DATABASE_NAME: "dbname",
+      };
+      for (const [name, key] of Object.entries(secretKeys)) {
+        environmentVariables.push({
+          name,
+          value: pulumi.interpolate`${database.migrationSecretArn}:${key}`,
+          type: "SECRETS_MANAGER",
+        });
+      }
     }
-  );
 
-  // Application deployment function
-  function createApplicationDeployment(
-    app: {
-      name: string;
-      contextPath: string;
-      requiresDatabaseAccess: boolean;
-      dependsOnMigrations: boolean;
-      buildCommand: string;
-      healthCheckPath: string;
-      environmentVariables: Record<string, string>;
-      resourceRequirements: { cpu: number; memory: number };
-      scaling: {
-        minInstances: number;
-        maxInstances: number;
-        targetCpuPercent: number;
-      };
-    },
-    database: DatabaseOutputs,
-    container: ContainerOutputs
-  ) {
+    // CodeBuild project for building the application image
+    const appProject = new aws.codebuild.Project(
+      `${app.name}-app-build`,
+      {
+        name: createApplicationName(config, app, "build", {
+          suffix: "app-build",
+          name: "pathfinder-app-build",
+        }),
+        description: `Build ${app.name} Docker image and deploy it to ECS`,
+        serviceRole: codebuildRole.arn,
+        buildTimeout: environmentConfig.codeBuildTimeout,
+        artifacts: {
+          type: "NO_ARTIFACTS",
+        },
+        environment: {
+          computeType: environmentConfig.codeBuildInstanceType,
+          image: "aws/codebuild/standard:7.0",
+          type: "LINUX_CONTAINER",
+          privilegedMode: true, // Required for Docker builds
+          environmentVariables,
+        },
+        vpcConfig: {
+          vpcId: network.vpcId,
+          subnets: network.privateSubnetIds,
+          securityGroupIds: [network.securityGroups.codeBuild],
+        },
+        source: {
+          type: "GITHUB",
+          location: `https://github.com/${config.githubOrg}/${config.githubRepo}.git`,
+          buildspec: app.buildspec,
+          gitCloneDepth: 1,
+        },
+        tags: {
+          ...commonTags,
+          Name: `${app.name}-app-build`,
+          Type: "codebuild-project",
+          Purpose: "application-image-build",
+          Application: app.name,
+        },
+      },
+      legacyAliasOptions(app, "pathfinder-app-build")
+    );
+
+    // Additional IAM permissions for deploying this application's service
+    const ecsDeployPolicy = new aws.iam.RolePolicy(
+      `${app.name}-ecs-deploy-policy`,
+      {
+        role: codebuildRole.id,
+        policy: pulumi
+          .all([container.taskExecutionRoleArn, container.taskRoleArn])
+          .apply(([taskExecRoleArn, taskRoleArn]: [string, string]) =>
+            JSON.stringify({
+              Version: "2012-10-17",
+              Statement: [
+                {
+                  Effect: "Allow",
+                  Action: [
+                    "ecs:UpdateService",
+                    "ecs:DescribeServices",
+                    "ecs:DescribeTasks",
+                    "ecs:DescribeTaskDefinition",
+                    "ecs:RegisterTaskDefinition",
+                  ],
+                  Resource: "*",
+                },
+                {
+                  Effect: "Allow",
+                  Action: ["iam:PassRole"],
+                  Resource: [taskExecRoleArn, taskRoleArn],
+                },
+              ],
+            })
+          ),
+      },
+      legacyAliasOptions(app, "pathfinder-ecs-deploy-policy")
+    );
+
     // Return deployment configuration for the application
     return {
       appName: app.name,
@@ -236,24 +275,27 @@ export function createBuildSystem(
       // Single build command that does everything (migrations + app)
       buildCommands: {
         // Single step: Run the complete build (migrations + app + deploy)
-        deployWithMigrations: `aws codebuild start-build --project-name ${appProject.name}`,
+        deployWithMigrations: pulumi.interpolate`aws codebuild start-build --project-name ${appProject.name}`,
       },
       // Docker image reference
-      containerImage: pulumi.interpolate`${container.repositoryUrl}:${app.name}-latest`,
+      containerImage: pulumi.interpolate`${container.repositoryUrl}:latest`,
       healthCheckPath: app.healthCheckPath,
-      resourceRequirements: app.resourceRequirements,
-      scaling: app.scaling,
+      resourceRequirements: { cpu: sizing.cpu, memory: sizing.memory },
+      scaling: {
+        minInstances: sizing.minInstances,
+        maxInstances: sizing.maxInstances,
+        targetCpuPercent: sizing.targetCpuPercent,
+      },
       // Build project reference
       buildProject: appProject.name,
+      buildProjectArn: appProject.arn,
     };
   }
 
   return {
-    appProjectName: appProject.name,
-    appProjectArn: appProject.arn,
     codebuildRoleArn: codebuildRole.arn,
-    buildInstanceType: "BUILD_GENERAL1_MEDIUM",
-    buildTimeout: 20,
+    buildInstanceType: environmentConfig.codeBuildInstanceType,
+    buildTimeout: environmentConfig.codeBuildTimeout,
     createApplicationDeployment,
   };
 }
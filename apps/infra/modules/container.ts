@@ -1,42 +1,101 @@
 import * as aws from "@pulumi/aws";
 import * as pulumi from "@pulumi/pulumi";
 import {
+  ApplicationConfig,
+  ClusterOutputs,
   CommonConfig,
   DatabaseOutputs,
-  LoadBalancerOutputs,
+  KmsOutputs,
   NetworkOutputs,
 } from "../types";
+import {
+  createApplicationName,
+  createApplicationPath,
+  createPhysicalName,
+  legacyAliasOptions,
+  resolveApplicationSizing,
+} from "../utils";
+import {
+  createApplicationSecrets,
+  createSecretsPolicyDocument,
+} from "./secrets";
+
+// All applications listen on the port the ECS security group opens to the ALB
+export const APPLICATION_PORT = 3000;
+
+export function createCluster(config: CommonConfig): ClusterOutputs {
+  const { commonTags, features } = config;
+
+  // ECS Cluster shared by all applications
+  const cluster = new aws.ecs.Cluster("pathfinder-cluster", {
+    name: createPhysicalName(config, "cluster", "pathfinder"),
+    settings: [
+      {
+        name: "containerInsights",
+        value: features.enableDetailedMonitoring ? "enabled" : "disabled",
+      },
+    ],
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-cluster",
+      Type: "ecs-cluster",
+    },
+  });
+
+  return {
+    clusterName: cluster.name,
+    clusterArn: cluster.arn,
+  };
+}
 
 export function createContainer(
   config: CommonConfig,
   network: NetworkOutputs,
   database: DatabaseOutputs,
-  loadBalancer?: LoadBalancerOutputs
+  cluster: ClusterOutputs,
+  app: ApplicationConfig,
+  targetGroupArn?: pulumi.Output<string>,
+  kms?: KmsOutputs
 ) {
-  const { commonTags } = config;
+  const { commonTags, features } = config;
+  const sizing = resolveApplicationSizing(config, app);
+  const containerName = app.legacyAliases ? "pathfinder-app" : app.name;
 
   // ECR Repository for container images
-  const repository = new aws.ecr.Repository("pathfinder-repository", {
-    name: "pathfinder",
-    imageTagMutability: "MUTABLE",
-    imageScanningConfiguration: {
-      scanOnPush: true,
-    },
-    encryptionConfigurations: [
-      {
-        encryptionType: "AES256",
+  const repository = new aws.ecr.Repository(
+    `${app.name}-repository`,
+    {
+      name: createApplicationName(config, app, "app", {
+        suffix: "app",
+        name: "pathfinder",
+      }),
+      imageTagMutability: "MUTABLE",
+      imageScanningConfiguration: {
+        scanOnPush: true,
+      },
+      encryptionConfigurations: [
+        kms
+          ? { encryptionType: "KMS", kmsKey: kms.artifacts.keyArn }
+          : { encryptionType: "AES256" },
+      ],
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-repository`,
+        Type: "ecr-repository",
+        Application: app.name,
       },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-repository",
-      Type: "ecr-repository",
     },
-  });
+    {
+      ...legacyAliasOptions(app, "pathfinder-repository"),
+      // Fixed at creation; changing it would replace the repository and
+      // its images, so existing repositories keep their encryption
+      ignoreChanges: ["encryptionConfigurations"],
+    }
+  );
 
   // ECR Lifecycle Policy
   const lifecyclePolicy = new aws.ecr.LifecyclePolicy(
-    "pathfinder-lifecycle-policy",
+    `${app.name}-lifecycle-policy`,
     {
       repository: repository.name,
       policy: JSON.stringify({
@@ -82,242 +141,275 @@ export function createContainer(
           },
         ],
       }),
-    }
-  );
-
-  // ECS Cluster
-  const cluster = new aws.ecs.Cluster("pathfinder-cluster", {
-    name: "pathfinder",
-    settings: [
-      {
-        name: "containerInsights",
-        value: "enabled",
-      },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-cluster",
-      Type: "ecs-cluster",
     },
-  });
+    legacyAliasOptions(app, "pathfinder-lifecycle-policy")
+  );
 
   // CloudWatch Log Group for application logs
-  const logGroup = new aws.cloudwatch.LogGroup("pathfinder-app-logs", {
-    name: "/aws/ecs/pathfinder",
-    retentionInDays: config.logRetentionDays,
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-app-logs",
-      Type: "log-group",
+  const logGroup = new aws.cloudwatch.LogGroup(
+    `${app.name}-app-logs`,
+    {
+      name: `/aws/ecs/${createApplicationPath(config, app, "app", {
+        subPath: "app",
+        path: "pathfinder",
+      })}`,
+      retentionInDays: config.logRetentionDays,
+      kmsKeyId: kms?.logs.keyArn,
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-app-logs`,
+        Type: "log-group",
+        Application: app.name,
+      },
     },
-  });
+    legacyAliasOptions(app, "pathfinder-app-logs")
+  );
 
   // ECS Task Execution Role
-  const taskExecutionRole = new aws.iam.Role("pathfinder-task-execution-role", {
-    name: "pathfinder-ecs-task-execution-role",
-    assumeRolePolicy: JSON.stringify({
-      Version: "2012-10-17",
-      Statement: [
-        {
-          Action: "sts:AssumeRole",
-          Effect: "Allow",
-          Principal: {
-            Service: "ecs-tasks.amazonaws.com",
+  const taskExecutionRole = new aws.iam.Role(
+    `${app.name}-task-execution-role`,
+    {
+      name: createApplicationName(config, app, "execution-role", {
+        suffix: "ecs-task-execution-role",
+        name: "pathfinder-ecs-task-execution-role",
+      }),
+      assumeRolePolicy: JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Action: "sts:AssumeRole",
+            Effect: "Allow",
+            Principal: {
+              Service: "ecs-tasks.amazonaws.com",
+            },
           },
-        },
-      ],
-    }),
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-task-execution-role",
-      Type: "iam-role",
+        ],
+      }),
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-task-execution-role`,
+        Type: "iam-role",
+        Application: app.name,
+      },
     },
-  });
+    legacyAliasOptions(app, "pathfinder-task-execution-role")
+  );
 
   // Attach the ECS task execution role policy
   const taskExecutionRolePolicyAttachment = new aws.iam.RolePolicyAttachment(
-    "pathfinder-task-execution-role-policy",
+    `${app.name}-task-execution-role-policy`,
     {
       role: taskExecutionRole.name,
       policyArn:
         "arn:aws:iam::aws:policy/service-role/AmazonECSTaskExecutionRolePolicy",
-    }
+    },
+    legacyAliasOptions(app, "pathfinder-task-execution-role-policy")
   );
 
-  // Add policy for Secrets Manager access to task execution role
-  const taskExecutionSecretsPolicy = new aws.iam.RolePolicy(
-    "pathfinder-task-execution-secrets-policy",
-    {
-      role: taskExecutionRole.id,
-      policy: database.secretArn.apply((secretArn) =>
-        JSON.stringify({
-          Version: "2012-10-17",
-          Statement: [
-            {
-              Effect: "Allow",
-              Action: [
-                "secretsmanager:GetSecretValue",
-                "secretsmanager:DescribeSecret",
-              ],
-              Resource: secretArn,
-            },
-          ],
-        })
-      ),
-    }
-  );
+  // Execution role reads exactly the secrets injected into the container
+  const secrets = createApplicationSecrets(config, app, database, kms);
+  const secretsPolicyDocument = createSecretsPolicyDocument(secrets);
+  if (secretsPolicyDocument) {
+    const taskExecutionSecretsPolicy = new aws.iam.RolePolicy(
+      `${app.name}-task-execution-secrets-policy`,
+      {
+        role: taskExecutionRole.id,
+        policy: secretsPolicyDocument,
+      },
+      legacyAliasOptions(app, "pathfinder-task-execution-secrets-policy")
+    );
+  }
 
   // ECS Task Role for application permissions
-  const taskRole = new aws.iam.Role("pathfinder-task-role", {
-    name: "pathfinder-ecs-task-role",
-    assumeRolePolicy: JSON.stringify({
-      Version: "2012-10-17",
-      Statement: [
-        {
-          Action: "sts:AssumeRole",
-          Effect: "Allow",
-          Principal: {
-            Service: "ecs-tasks.amazonaws.com",
-          },
-        },
-      ],
-    }),
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-task-role",
-      Type: "iam-role",
-    },
-  });
-
-  // Task Role Policy for application access
-  const taskRolePolicy = new aws.iam.RolePolicy("pathfinder-task-role-policy", {
-    role: taskRole.id,
-    policy: logGroup.arn.apply((logGroupArn) =>
-      JSON.stringify({
+  const taskRole = new aws.iam.Role(
+    `${app.name}-task-role`,
+    {
+      name: createApplicationName(config, app, "task-role", {
+        suffix: "ecs-task-role",
+        name: "pathfinder-ecs-task-role",
+      }),
+      assumeRolePolicy: JSON.stringify({
         Version: "2012-10-17",
         Statement: [
           {
+            Action: "sts:AssumeRole",
             Effect: "Allow",
-            Action: [
-              "secretsmanager:GetSecretValue",
-              "secretsmanager:DescribeSecret",
-            ],
-            Resource: "*",
-          },
-          {
-            Effect: "Allow",
-            Action: ["logs:CreateLogStream", "logs:PutLogEvents"],
-            Resource: logGroupArn,
+            Principal: {
+              Service: "ecs-tasks.amazonaws.com",
+            },
           },
         ],
-      })
-    ),
-  });
+      }),
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-task-role`,
+        Type: "iam-role",
+        Application: app.name,
+      },
+    },
+    legacyAliasOptions(app, "pathfinder-task-role")
+  );
 
-  // ECS Task Definition
-  const taskDefinition = new aws.ecs.TaskDefinition("pathfinder-task", {
-    family: "pathfinder",
-    networkMode: "awsvpc",
-    requiresCompatibilities: ["FARGATE"],
-    cpu: "1024",
-    memory: "2048",
-    executionRoleArn: taskExecutionRole.arn,
-    taskRoleArn: taskRole.arn,
-    containerDefinitions: pulumi
-      .all([repository.repositoryUrl, logGroup.name, database.secretArn])
-      .apply(([repoUrl, logGroupName, secretArn]: [string, string, string]) =>
-        JSON.stringify([
-          {
-            name: "pathfinder-app",
-            image: `${repoUrl}:latest`,
-            essential: true,
-            portMappings: [
-              {
-                containerPort: 3000,
-                protocol: "tcp",
-              },
-            ],
-            environment: [
-              {
-                name: "NODE_ENV",
-                value: "production",
-              },
+  // Task Role Policy for application access
+  const taskRolePolicy = new aws.iam.RolePolicy(
+    `${app.name}-task-role-policy`,
+    {
+      role: taskRole.id,
+      policy: pulumi
+        .all([logGroup.arn, pulumi.all(secrets.taskSecretArns)])
+        .apply(([logGroupArn, taskSecretArns]) =>
+          JSON.stringify({
+            Version: "2012-10-17",
+            Statement: [
               {
-                name: "PORT",
-                value: "3000",
+                Effect: "Allow",
+                Action: ["logs:CreateLogStream", "logs:PutLogEvents"],
+                Resource: logGroupArn,
               },
+              // Secrets the app re-reads itself, e.g. after a rotation
+              ...(taskSecretArns.length > 0
+                ? [
+                    {
+                      Effect: "Allow",
+                      Action: ["secretsmanager:GetSecretValue"],
+                      Resource: taskSecretArns,
+                    },
+                  ]
+                : []),
             ],
-            secrets: [
-              {
-                name: "DATABASE_URL",
-                valueFrom: secretArn,
+          })
+        ),
+    },
+    legacyAliasOptions(app, "pathfinder-task-role-policy")
+  );
+
+  // Container environment: the app's variables plus the port the ALB targets
+  const environment = Object.entries({
+    ...app.environmentVariables,
+    PORT: APPLICATION_PORT.toString(),
+  }).map(([name, value]) => ({ name, value }));
+
+  // ECS Task Definition
+  const taskDefinition = new aws.ecs.TaskDefinition(
+    `${app.name}-task`,
+    {
+      family: createApplicationName(config, app, "app", {
+        suffix: "app",
+        name: "pathfinder",
+      }),
+      networkMode: "awsvpc",
+      requiresCompatibilities: ["FARGATE"],
+      cpu: sizing.cpu.toString(),
+      memory: sizing.memory.toString(),
+      executionRoleArn: taskExecutionRole.arn,
+      taskRoleArn: taskRole.arn,
+      containerDefinitions: pulumi
+        .all([
+          repository.repositoryUrl,
+          logGroup.name,
+          secrets.containerSecrets,
+          secrets.containerEnvironment,
+        ])
+        .apply(([repoUrl, logGroupName, containerSecrets, secretsEnv]) =>
+          JSON.stringify([
+            {
+              name: containerName,
+              image: `${repoUrl}:latest`,
+              essential: true,
+              portMappings: [
+                {
+                  containerPort: APPLICATION_PORT,
+                  protocol: "tcp",
+                },
+              ],
+              environment: [...environment, ...secretsEnv],
+              secrets: containerSecrets,
+              logConfiguration: {
+                logDriver: "awslogs",
+                options: {
+                  "awslogs-group": logGroupName,
+                  "awslogs-region": config.awsRegion,
+                  "awslogs-stream-prefix": "ecs",
+                },
               },
-            ],
-            logConfiguration: {
-              logDriver: "awslogs",
-              options: {
-                "awslogs-group": logGroupName,
-                "awslogs-region": config.awsRegion,
-                "awslogs-stream-prefix": "ecs",
+              healthCheck: {
+                command: [
+                  "CMD-SHELL",
+                  `curl -f http://localhost:${APPLICATION_PORT}${app.healthCheckPath} || exit 1`,
+                ],
+                interval: 30,
+                timeout: 5,
+                retries: 3,
+                startPeriod: 60,
               },
             },
-            healthCheck: {
-              command: [
-                "CMD-SHELL",
-                "curl -f http://localhost:3000/health || exit 1",
-              ],
-              interval: 30,
-              timeout: 5,
-              retries: 3,
-              startPeriod: 60,
-            },
-          },
-        ])
-      ),
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-task",
-      Type: "ecs-task-definition",
+          ])
+        ),
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-task`,
+        Type: "ecs-task-definition",
+        Application: app.name,
+      },
     },
-  });
+    legacyAliasOptions(app, "pathfinder-task")
+  );
 
   // ECS Service
-  const service = new aws.ecs.Service("pathfinder-service", {
-    name: "pathfinder",
-    cluster: cluster.id,
-    taskDefinition: taskDefinition.arn,
-    desiredCount: 2,
-    launchType: "FARGATE",
-    platformVersion: "LATEST",
-    networkConfiguration: {
-      subnets: network.privateSubnetIds,
-      securityGroups: [network.securityGroups.ecs],
-      assignPublicIp: false,
-    },
-    enableExecuteCommand: config.environment !== "prod",
-    // Attach to load balancer if provided
-    loadBalancers: loadBalancer
-      ? [
-          {
-            targetGroupArn: loadBalancer.targetGroupArn,
-            containerName: "pathfinder-app",
-            containerPort: 3000,
-          },
-        ]
-      : undefined,
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-service",
-      Type: "ecs-service",
+  const service = new aws.ecs.Service(
+    `${app.name}-service`,
+    {
+      name: createApplicationName(config, app, "service", {
+        suffix: "service",
+        name: "pathfinder",
+      }),
+      cluster: cluster.clusterArn,
+      taskDefinition: taskDefinition.arn,
+      desiredCount: sizing.desiredCount,
+      launchType: "FARGATE",
+      platformVersion: "LATEST",
+      networkConfiguration: {
+        subnets: network.privateSubnetIds,
+        securityGroups: [network.securityGroups.ecs],
+        assignPublicIp: false,
+      },
+      enableExecuteCommand: config.environment !== "prod",
+      // Attach to the app's target group when it receives ALB traffic
+      loadBalancers: targetGroupArn
+        ? [
+            {
+              targetGroupArn,
+              containerName,
+              containerPort: APPLICATION_PORT,
+            },
+          ]
+        : undefined,
+      tags: {
+        ...commonTags,
+        Name: `${app.name}-service`,
+        Type: "ecs-service",
+        Application: app.name,
+      },
     },
-  });
+    {
+      ...legacyAliasOptions(app, "pathfinder-service"),
+      // Auto-scaling owns the running task count once it is enabled
+      ignoreChanges: features.enableAutoScaling ? ["desiredCount"] : [],
+    }
+  );
 
   return {
-    clusterName: cluster.name,
-    clusterArn: cluster.arn,
+    appName: app.name,
+    containerName,
+    clusterName: cluster.clusterName,
+    clusterArn: cluster.clusterArn,
     serviceName: service.name,
+    repositoryName: repository.name,
     repositoryUrl: repository.repositoryUrl,
     repositoryArn: repository.arn,
+    repositoryKmsKey: repository.encryptionConfigurations.apply(
+      (configurations) => configurations?.[0]?.kmsKey || undefined
+    ),
     taskDefinitionArn: taskDefinition.arn,
     logGroupName: logGroup.name,
     logGroupArn: logGroup.arn,
@@ -0,0 +1,158 @@
+import { DatabaseParameterProfile } from "../types";
+
+export interface DatabaseParameter {
+  name: string;
+  value: string;
+  /** Static parameters only take effect after a reboot */
+  applyMethod: "immediate" | "pending-reboot";
+}
+
+const immediate = (name: string, value: string): DatabaseParameter => ({
+  name,
+  value,
+  applyMethod: "immediate",
+});
+
+const pendingReboot = (name: string, value: string): DatabaseParameter => ({
+  name,
+  value,
+  applyMethod: "pending-reboot",
+});
+
+// ==========================================
+// PROFILES
+// ==========================================
+
+interface ParameterProfile {
+  /** Session audit logging through pgaudit */
+  audit: boolean;
+  logging: DatabaseParameter[];
+}
+
+const PROFILES: Record<DatabaseParameterProfile, ParameterProfile> = {
+  // Every statement with its values, for local debugging of queries
+  "verbose-dev": {
+    audit: false,
+    logging: [
+      immediate("log_statement", "all"),
+      immediate("log_min_duration_statement", "1000"),
+      immediate("log_connections", "1"),
+      immediate("log_disconnections", "1"),
+      immediate("log_lock_waits", "1"),
+    ],
+  },
+  // Schema changes and slow queries, without bind parameter values
+  balanced: {
+    audit: false,
+    logging: [
+      immediate("log_statement", "ddl"),
+      immediate("log_min_duration_statement", "1000"),
+      immediate("log_parameter_max_length", "0"),
+      immediate("log_lock_waits", "1"),
+      // Temporary files over 10 MB (in kB) point at undersized work_mem
+      immediate("log_temp_files", "10240"),
+    ],
+  },
+  // pgaudit records DDL and role changes instead of log_statement; values
+  // stay out of the logs
+  "audit-prod": {
+    audit: true,
+    logging: [
+      immediate("log_statement", "none"),
+      immediate("log_min_duration_statement", "1000"),
+      immediate("log_parameter_max_length", "0"),
+      immediate("log_lock_waits", "1"),
+      immediate("log_temp_files", "10240"),
+      immediate("pgaudit.log", "ddl,role"),
+      // Object logging: statements on whatever this role is granted
+      immediate("pgaudit.role", "rds_pgaudit"),
+      immediate("pgaudit.log_parameter", "0"),
+      immediate("pgaudit.log_catalog", "0"),
+    ],
+  },
+};
+
+export function isAuditProfile(profile: DatabaseParameterProfile): boolean {
+  return PROFILES[profile].audit;
+}
+
+// ==========================================
+// SIZING
+// ==========================================
+
+// RDS evaluates these formulas against the instance class (memory in bytes,
+// vCPUs), so resizing the instance resizes the settings too. Units are the
+// parameters' own: 8 kB pages for shared_buffers and effective_cache_size,
+// kB for the *_mem settings.
+const INSTANCE_SIZING: DatabaseParameter[] = [
+  pendingReboot("shared_buffers", "{DBInstanceClassMemory/32768}"),
+  immediate("effective_cache_size", "{DBInstanceClassMemory*3/32768}"),
+  immediate(
+    "maintenance_work_mem",
+    "{LEAST(DBInstanceClassMemory/16384,2097152)}"
+  ),
+  immediate("work_mem", "{GREATEST(DBInstanceClassMemory/2097152,4096)}"),
+  pendingReboot(
+    "max_connections",
+    "{LEAST(DBInstanceClassMemory/9531392,5000)}"
+  ),
+  pendingReboot("autovacuum_max_workers", "{GREATEST(DBInstanceVCPU/2,3)}"),
+  // Shared by all workers, so it grows with them
+  immediate(
+    "autovacuum_vacuum_cost_limit",
+    "{GREATEST(DBInstanceVCPU*100,200)}"
+  ),
+];
+
+// ==========================================
+// BLUE/GREEN UPGRADES
+// ==========================================
+
+// A major version blue/green deployment replicates from the blue instance
+// logically: one slot, WAL sender and apply worker per database, on top of
+// what autovacuum and parallel queries already use. All static, so the blue
+// instance needs a reboot before its first upgrade.
+const LOGICAL_REPLICATION: DatabaseParameter[] = [
+  pendingReboot("rds.logical_replication", "1"),
+  pendingReboot("max_replication_slots", "20"),
+  pendingReboot("max_wal_senders", "20"),
+  pendingReboot("max_worker_processes", "{GREATEST(DBInstanceVCPU*2,16)}"),
+];
+
+/**
+ * Parameters for the RDS instance's parameter group: the profile's logging
+ * plus memory, connection and autovacuum settings sized from the instance
+ * class, and logical replication when major versions upgrade blue/green
+ */
+export function instanceParameters(
+  profile: DatabaseParameterProfile,
+  blueGreen: boolean
+): DatabaseParameter[] {
+  return [
+    ...preloadLibraries(profile),
+    ...PROFILES[profile].logging,
+    ...INSTANCE_SIZING,
+    ...(blueGreen ? LOGICAL_REPLICATION : []),
+  ];
+}
+
+/**
+ * Parameters for the Aurora cluster parameter group. Aurora Serverless v2
+ * sizes memory and connections from the ACUs itself, so only the profile's
+ * logging applies.
+ */
+export function clusterParameters(
+  profile: DatabaseParameterProfile
+): DatabaseParameter[] {
+  return [...preloadLibraries(profile), ...PROFILES[profile].logging];
+}
+
+function preloadLibraries(
+  profile: DatabaseParameterProfile
+): DatabaseParameter[] {
+  const libraries = ["pg_stat_statements"];
+  if (PROFILES[profile].audit) {
+    libraries.push("pgaudit");
+  }
+  return [pendingReboot("shared_preload_libraries", libraries.join(","))];
+}
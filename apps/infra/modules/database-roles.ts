@@ -0,0 +1,227 @@
+import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
+import * as random from "@pulumi/random";
+import * as path from "path";
+import { CommonConfig, KmsOutputs, NetworkOutputs } from "../types";
+import { createPhysicalName, createPhysicalPath } from "../utils";
+
+// Prisma keeps every model in the default schema
+const APP_SCHEMA = "public";
+
+// Handler and its package.json; run `npm install --prefix functions/database-roles`
+// before `pulumi up`
+const FUNCTION_DIR = path.join(__dirname, "..", "functions", "database-roles");
+
+export interface DatabaseConnection {
+  address: pulumi.Output<string>;
+  port: pulumi.Output<number>;
+  dbName: pulumi.Output<string>;
+}
+
+/**
+ * Standard RDS secret structure, which RDS Proxy, the rotation Lambda and
+ * the apps read
+ */
+export function rdsSecretString(
+  connection: DatabaseConnection,
+  username: pulumi.Input<string>,
+  password: pulumi.Input<string>
+): pulumi.Output<string> {
+  return pulumi
+    .all([
+      connection.address,
+      connection.port,
+      username,
+      password,
+      connection.dbName,
+    ])
+    .apply(([host, port, username, password, dbname]) =>
+      JSON.stringify({
+        engine: "postgres",
+        host,
+        port,
+        username,
+        password,
+        dbname,
+      })
+    );
+}
+
+interface RoleDefinition {
+  key: "migration" | "app";
+  username: string;
+  description: string;
+}
+
+const ROLES: RoleDefinition[] = [
+  {
+    key: "migration",
+    username: "pathfinder_migrator",
+    description: "Owns the app schema and runs migrations (DDL)",
+  },
+  {
+    key: "app",
+    username: "pathfinder_app",
+    description: "Application connections (DML only)",
+  },
+];
+
+/**
+ * Least-privilege roles next to the master user: one that owns the schema
+ * for migrations and one the running applications use. Each has its own RDS
+ * JSON secret; a Lambda in the VPC creates the roles and their grants, and
+ * sets up pgaudit when the parameter profile audits.
+ */
+export function createDatabaseRoles(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  connection: DatabaseConnection,
+  adminSecret: aws.secretsmanager.Secret,
+  audit: boolean,
+  dependsOn: pulumi.Resource[],
+  kms?: KmsOutputs
+) {
+  const { commonTags } = config;
+
+  const roles = Object.fromEntries(
+    ROLES.map((role) => {
+      const resourceName = `pathfinder-db-${role.key}`;
+
+      // Alphanumeric like the master password, so URLs need no escaping
+      const password = new random.RandomPassword(`${resourceName}-password`, {
+        length: 32,
+        special: false,
+      });
+
+      const secret = new aws.secretsmanager.Secret(`${resourceName}-secret`, {
+        name: createPhysicalPath(config, `database/${role.key}`),
+        description: `Credentials for ${role.username}: ${role.description}`,
+        kmsKeyId: kms?.secrets.keyArn,
+        tags: {
+          ...commonTags,
+          Name: `${resourceName}-secret`,
+          Type: "secret",
+        },
+      });
+
+      // Seeded once, like the master secret; rotation owns it afterwards
+      const secretVersion = new aws.secretsmanager.SecretVersion(
+        `${resourceName}-secret-version`,
+        {
+          secretId: secret.id,
+          secretString: rdsSecretString(
+            connection,
+            role.username,
+            password.result
+          ),
+        },
+        { ignoreChanges: ["secretString"] }
+      );
+
+      return [role.key, { username: role.username, secret, secretVersion }];
+    })
+  ) as Record<
+    RoleDefinition["key"],
+    {
+      username: string;
+      secret: aws.secretsmanager.Secret;
+      secretVersion: aws.secretsmanager.SecretVersion;
+    }
+  >;
+
+  // ==========================================
+  // PROVISIONING FUNCTION
+  // ==========================================
+
+  const functionRole = new aws.iam.Role("pathfinder-db-roles-function-role", {
+    name: createPhysicalName(config, "db-roles-function-role"),
+    assumeRolePolicy: JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Action: "sts:AssumeRole",
+          Effect: "Allow",
+          Principal: {
+            Service: "lambda.amazonaws.com",
+          },
+        },
+      ],
+    }),
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-db-roles-function-role",
+      Type: "iam-role",
+    },
+  });
+
+  new aws.iam.RolePolicyAttachment("pathfinder-db-roles-function-vpc-access", {
+    role: functionRole.name,
+    policyArn:
+      "arn:aws:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole",
+  });
+
+  new aws.iam.RolePolicy("pathfinder-db-roles-function-policy", {
+    role: functionRole.id,
+    policy: pulumi
+      .all([adminSecret.arn, roles.migration.secret.arn, roles.app.secret.arn])
+      .apply((secretArns) =>
+        JSON.stringify({
+          Version: "2012-10-17",
+          Statement: [
+            {
+              Effect: "Allow",
+              Action: ["secretsmanager:GetSecretValue"],
+              Resource: secretArns,
+            },
+          ],
+        })
+      ),
+  });
+
+  const provisioner = new aws.lambda.Function("pathfinder-db-roles-function", {
+    name: createPhysicalName(config, "db-roles"),
+    runtime: "nodejs20.x",
+    handler: "index.handler",
+    role: functionRole.arn,
+    code: new pulumi.asset.FileArchive(FUNCTION_DIR),
+    timeout: 60,
+    vpcConfig: {
+      subnetIds: network.zonalPrivateSubnetIds,
+      securityGroupIds: [network.securityGroups.databaseFunctions],
+    },
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-db-roles-function",
+      Type: "lambda-function",
+    },
+  });
+
+  // Runs again whenever the input, the code or the database endpoint changes
+  const provisioning = new aws.lambda.Invocation(
+    "pathfinder-db-roles",
+    {
+      functionName: provisioner.name,
+      input: pulumi.jsonStringify({
+        adminSecretArn: adminSecret.arn,
+        migrationSecretArn: roles.migration.secret.arn,
+        appSecretArn: roles.app.secret.arn,
+        schema: APP_SCHEMA,
+        // pgaudit's object logging role and extension (audit-prod)
+        audit,
+      }),
+      triggers: {
+        code: provisioner.sourceCodeHash,
+        address: connection.address,
+      },
+    },
+    {
+      dependsOn: [
+        ...dependsOn,
+        roles.migration.secretVersion,
+        roles.app.secretVersion,
+      ],
+    }
+  );
+
+  return { ...roles, provisioning };
+}
@@ -1,10 +1,115 @@
 import * as aws from "@pulumi/aws";
 import * as pulumi from "@pulumi/pulumi";
 import * as random from "@pulumi/random";
-import { CommonConfig, NetworkOutputs } from "../types";
+import {
+  CommonConfig,
+  DatabaseRestoreSource,
+  DatabaseUpgradeStatus,
+  KmsOutputs,
+  NetworkOutputs,
+} from "../types";
+import { createPhysicalName, createPhysicalPath } from "../utils";
+import {
+  clusterParameters,
+  instanceParameters,
+  isAuditProfile,
+} from "./database-parameters";
+import { createDatabaseRoles, rdsSecretString } from "./database-roles";
 
-export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
-  const { commonTags } = config;
+// What the rest of createDatabase needs from either engine
+interface DatabaseServer {
+  /** Instance identifier for CloudWatch metrics (the Aurora writer) */
+  instanceId: pulumi.Output<string>;
+  /** host:port, like aws.rds.Instance.endpoint */
+  endpoint: pulumi.Output<string>;
+  /** Hostname without the port */
+  address: pulumi.Output<string>;
+  port: pulumi.Output<number>;
+  dbName: pulumi.Output<string>;
+  username: pulumi.Output<string>;
+  readerEndpoint?: pulumi.Output<string>;
+  /** Log group RDS exports the postgresql log to */
+  logGroupName: pulumi.Output<string>;
+  /** Where RDS Proxy sends connections */
+  proxyTarget: Pick<
+    aws.rds.ProxyTargetArgs,
+    "dbInstanceIdentifier" | "dbClusterIdentifier"
+  >;
+  /** Resources that must exist before the proxy target is registered */
+  instances: pulumi.Resource[];
+  /** Engine version running after this update */
+  engineVersion: pulumi.Output<string>;
+  /** Storage key, fixed when the database was created */
+  storageKmsKeyId: pulumi.Output<string>;
+}
+
+/**
+ * Whether the stack has a replica for read-only queries: the RDS read replica
+ * (database.readReplica, prod by default, with backups) or Aurora reader
+ * instances
+ */
+export function hasReadReplica(config: CommonConfig): boolean {
+  const { engine, serverless, readReplica } = config.databaseConfig;
+  return engine === "aurora-serverless-v2"
+    ? serverless.readers > 0
+    : (readReplica ?? config.environment === "prod") &&
+        config.features.enableBackups;
+}
+
+/**
+ * How engine version changes are applied. RDS blue/green deployments need
+ * automated backups and an instance without read replicas; Aurora clusters
+ * always upgrade in place.
+ */
+export function upgradeStrategy(config: CommonConfig): {
+  strategy: "blue-green" | "in-place";
+  reason: string;
+} {
+  if (config.databaseConfig.engine === "aurora-serverless-v2") {
+    return {
+      strategy: "in-place",
+      reason: "blue/green updates are not available for Aurora clusters",
+    };
+  }
+  if (!config.features.enableBackups) {
+    return {
+      strategy: "in-place",
+      reason: "blue/green deployments need automated backups",
+    };
+  }
+  if (hasReadReplica(config)) {
+    return {
+      strategy: "in-place",
+      reason: "blue/green updates cannot run with a read replica",
+    };
+  }
+  return {
+    strategy: "blue-green",
+    reason: "a green instance is upgraded, then switched over",
+  };
+}
+
+const majorVersion = (engineVersion: string) => engineVersion.split(".")[0];
+
+interface DatabaseServerArgs {
+  password: pulumi.Output<string>;
+  subnetGroupName: pulumi.Output<string>;
+  monitoringRoleArn: pulumi.Output<string>;
+  takeFinalSnapshot: boolean;
+  /** Storage and Performance Insights key; the AWS-managed key without it */
+  kmsKeyId?: pulumi.Output<string>;
+}
+
+export function createDatabase(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  kms?: KmsOutputs
+) {
+  const { commonTags, features } = config;
+
+  // Final snapshots are part of the backup subsystem
+  const takeFinalSnapshot =
+    features.enableBackups && config.dbDeletionProtection;
 
   // Generate a secure random password for the database (alphanumeric only - no special chars)
   const dbPassword = new random.RandomPassword("pathfinder-db-password", {
@@ -18,8 +123,13 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
 
   // Create AWS Secret for database credentials (will be populated after RDS instance is created)
   const dbSecret = new aws.secretsmanager.Secret("pathfinder-db-secret", {
-    name: "pathfinder/database/master-password",
-    description: "Complete DATABASE_URL for Pathfinder PostgreSQL database",
+    name: createPhysicalPath(
+      config,
+      "database/master-password",
+      "pathfinder/database/master-password"
+    ),
+    description: "Credentials for Pathfinder PostgreSQL database (RDS JSON)",
+    kmsKeyId: kms?.secrets.keyArn,
     tags: {
       ...commonTags,
       Name: "pathfinder-db-secret",
@@ -27,9 +137,9 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
     },
   });
 
-  // Database subnet group in private subnets only
+  // Database subnet group in the isolated database tier
   const dbSubnetGroup = new aws.rds.SubnetGroup("pathfinder-db-subnet-group", {
-    subnetIds: network.privateSubnetIds,
+    subnetIds: network.databaseSubnetIds,
     description: "Subnet group for private database access",
     tags: {
       ...commonTags,
@@ -71,111 +181,104 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
     }
   );
 
-  // DB parameter group for PostgreSQL optimization
-  const dbParameterGroup = new aws.rds.ParameterGroup("pathfinder-db-params", {
-    family: "postgres15",
-    description: "Custom parameter group for Pathfinder PostgreSQL database",
-    parameters: [
-      {
-        name: "shared_preload_libraries",
-        value: "pg_stat_statements",
-      },
-      {
-        name: "log_statement",
-        value: "all",
-      },
-      {
-        name: "log_min_duration_statement",
-        value: "1000",
-      },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-db-params",
-      Type: "db-parameter-group",
-    },
-  });
-
-  // Primary RDS instance in private subnets
-  const dbInstance = new aws.rds.Instance("pathfinder-database-v2", {
-    engine: "postgres",
-    engineVersion: "15.8",
-    instanceClass: config.dbInstanceClass || "db.t3.micro",
-    allocatedStorage: config.dbAllocatedStorage || 20,
-    maxAllocatedStorage: config.dbMaxAllocatedStorage || 100,
-    storageType: "gp3",
-    storageEncrypted: true,
-
-    dbName: "pathfinder",
-    username: "pathfinder_admin",
+  const serverArgs: DatabaseServerArgs = {
     password: dbPassword.result,
-
-    vpcSecurityGroupIds: [network.securityGroups.database],
-    dbSubnetGroupName: dbSubnetGroup.name,
-    parameterGroupName: dbParameterGroup.name,
-
-    publiclyAccessible: false, // Critical: no public access
-    multiAz: config.environment === "prod",
-
-    backupRetentionPeriod: config.dbBackupRetentionPeriod || 7,
-    backupWindow: "03:00-04:00",
-    maintenanceWindow: "Sun:04:00-Sun:05:00",
-
-    deletionProtection: config.dbDeletionProtection || false,
-    skipFinalSnapshot: !config.dbDeletionProtection,
-    finalSnapshotIdentifier: config.dbDeletionProtection
-      ? "pathfinder-final-snapshot"
-      : undefined,
-
-    monitoringInterval: 60,
+    subnetGroupName: dbSubnetGroup.name,
     monitoringRoleArn: enhancedMonitoringRole.arn,
-    enabledCloudwatchLogsExports: ["postgresql"],
-
-    performanceInsightsEnabled: true,
-    performanceInsightsRetentionPeriod: 7,
+    takeFinalSnapshot,
+    kmsKeyId: kms?.data.keyArn,
+  };
+  const server =
+    config.databaseConfig.engine === "aurora-serverless-v2"
+      ? createAuroraCluster(config, network, serverArgs)
+      : createRdsInstance(config, network, serverArgs);
 
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-database",
-      Type: "rds-instance",
-    },
-  });
+  // DATABASE_URL with the initial password; the endpoint already includes
+  // the port
+  const connectionString = pulumi.interpolate`postgresql://${server.username}:${dbPassword.result}@${server.endpoint}/${server.dbName}?sslmode=require`;
 
-  // Store the complete DATABASE_URL in the secret after instance is created
+  // Standard RDS secret structure, which the rotation Lambda and RDS Proxy
+  // read and the rotation Lambda rewrites with each new password. Pulumi only
+  // seeds it; ignoring secretString keeps a later update from writing the
+  // initial password back over a rotated one.
   const dbSecretVersion = new aws.secretsmanager.SecretVersion(
     "pathfinder-db-secret-version",
     {
       secretId: dbSecret.id,
-      secretString: dbInstance.endpoint.apply(
-        (endpoint) =>
-          `postgresql://pathfinder_admin:${dbPassword.result}@${endpoint}:5432/pathfinder?sslmode=require`
-      ),
-    }
+      secretString: rdsSecretString(server, server.username, dbPassword.result),
+    },
+    { ignoreChanges: ["secretString"] }
   );
 
-  // Read replica for production environment
-  const readReplica =
-    config.environment === "prod"
-      ? new aws.rds.Instance("pathfinder-db-read-replica", {
-          replicateSourceDb: dbInstance.id,
-          instanceClass: config.dbInstanceClass || "db.t3.micro",
-          publiclyAccessible: false,
+  // Migration (DDL) and application (DML) roles, provisioned with the
+  // master credentials
+  const roles = createDatabaseRoles(
+    config,
+    network,
+    server,
+    dbSecret,
+    isAuditProfile(config.databaseConfig.parameterProfile),
+    [...server.instances, dbSecretVersion],
+    kms
+  );
 
-          monitoringInterval: 60,
-          monitoringRoleArn: enhancedMonitoringRole.arn,
+  if (config.databaseConfig.rotation.enabled) {
+    createSecretRotation(
+      config,
+      network,
+      [
+        { name: "pathfinder-db-secret-rotation", secret: dbSecret },
+        {
+          name: "pathfinder-db-migration-secret-rotation",
+          secret: roles.migration.secret,
+        },
+        {
+          name: "pathfinder-db-app-secret-rotation",
+          secret: roles.app.secret,
+        },
+      ],
+      [roles.provisioning]
+    );
+  }
 
+  // Host and database of the replica for DATABASE_READ_URL. Credentials
+  // rotate, so the apps take them from the app role's secret; the replica
+  // has the same roles as the primary.
+  const readUrlSecret =
+    server.readerEndpoint && hasReadReplica(config)
+      ? new aws.secretsmanager.Secret("pathfinder-db-read-url-secret", {
+          name: createPhysicalPath(config, "database/read-url"),
+          description:
+            "Read replica URL for read-only queries (no credentials)",
+          kmsKeyId: kms?.secrets.keyArn,
           tags: {
             ...commonTags,
-            Name: "pathfinder-db-read-replica",
-            Type: "rds-read-replica",
+            Name: "pathfinder-db-read-url-secret",
+            Type: "secret",
           },
         })
       : undefined;
 
+  if (readUrlSecret) {
+    new aws.secretsmanager.SecretVersion(
+      "pathfinder-db-read-url-secret-version",
+      {
+        secretId: readUrlSecret.id,
+        secretString: pulumi.interpolate`postgresql://${server.readerEndpoint}/${server.dbName}?sslmode=require`,
+      }
+    );
+  }
+
+  // The applications connect as the app role, so the proxy does too
+  const proxy = config.databaseConfig.proxy.enabled
+    ? createDatabaseProxy(config, network, server, roles.app.secret)
+    : undefined;
+
   // CloudWatch log group for database logs
   const dbLogGroup = new aws.cloudwatch.LogGroup("pathfinder-db-logs", {
-    name: pulumi.interpolate`/aws/rds/instance/${dbInstance.id}/postgresql`,
+    name: server.logGroupName,
     retentionInDays: config.logRetentionDays || 14,
+    kmsKeyId: kms?.logs.keyArn,
     tags: {
       ...commonTags,
       Name: "pathfinder-db-logs",
@@ -187,7 +290,11 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
   const dbConnectionAlarm = new aws.cloudwatch.MetricAlarm(
     "pathfinder-db-connection-alarm",
     {
-      name: "pathfinder-database-high-connections",
+      name: createPhysicalName(
+        config,
+        "database-high-connections",
+        "pathfinder-database-high-connections"
+      ),
       comparisonOperator: "GreaterThanThreshold",
       evaluationPeriods: 2,
       metricName: "DatabaseConnections",
@@ -197,7 +304,7 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
       threshold: 40,
       treatMissingData: "notBreaching",
       dimensions: {
-        DBInstanceIdentifier: dbInstance.id,
+        DBInstanceIdentifier: server.instanceId,
       },
       tags: {
         ...commonTags,
@@ -208,7 +315,11 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
   );
 
   const dbCpuAlarm = new aws.cloudwatch.MetricAlarm("pathfinder-db-cpu-alarm", {
-    name: "pathfinder-database-high-cpu",
+    name: createPhysicalName(
+      config,
+      "database-high-cpu",
+      "pathfinder-database-high-cpu"
+    ),
     comparisonOperator: "GreaterThanThreshold",
     evaluationPeriods: 3,
     metricName: "CPUUtilization",
@@ -218,7 +329,7 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
     threshold: 80,
     treatMissingData: "notBreaching",
     dimensions: {
-      DBInstanceIdentifier: dbInstance.id,
+      DBInstanceIdentifier: server.instanceId,
     },
     tags: {
       ...commonTags,
@@ -229,18 +340,583 @@ export function createDatabase(config: CommonConfig, network: NetworkOutputs) {
 
   // Return database outputs
   return {
-    instanceId: dbInstance.id,
-    endpoint: dbInstance.endpoint,
-    port: dbInstance.port,
-    dbName: dbInstance.dbName,
-    username: dbInstance.username,
+    instanceId: server.instanceId,
+    endpoint: server.endpoint,
+    port: server.port,
+    dbName: server.dbName,
+    username: server.username,
     password: dbPassword.result,
     secretArn: dbSecret.arn,
     secretId: dbSecret.id,
-    connectionString: pulumi.interpolate`postgresql://${dbInstance.username}:${dbPassword.result}@${dbInstance.endpoint}/${dbInstance.dbName}?sslmode=require`,
-    readReplicaEndpoint: readReplica?.endpoint,
+    migrationSecretArn: roles.migration.secret.arn,
+    appSecretArn: roles.app.secret.arn,
+    connectionString,
+    proxyEndpoint: proxy?.endpoint,
+    proxyAddress: proxy?.address,
+    readReplicaEndpoint: server.readerEndpoint,
+    readUrlSecretArn: readUrlSecret?.arn,
+    engineUpgrade: engineUpgradeStatus(config, server),
+    storageKmsKeyId: server.storageKmsKeyId,
     logGroupName: dbLogGroup.name,
     connectionAlarmArn: dbConnectionAlarm.arn,
     cpuAlarmArn: dbCpuAlarm.arn,
   };
 }
+
+// ==========================================
+// ENGINE VERSION
+// ==========================================
+
+/**
+ * Upgrade state for the stack outputs. `pulumi up` waits for a blue/green
+ * deployment to switch over, so after a successful update the running major
+ * version is the target; "upgrade-pending" means RDS has not applied it yet,
+ * such as an in-place upgrade waiting for the maintenance window.
+ */
+function engineUpgradeStatus(
+  config: CommonConfig,
+  server: DatabaseServer
+): DatabaseUpgradeStatus {
+  const { engineVersion } = config.databaseConfig;
+  return {
+    targetVersion: engineVersion,
+    runningVersion: server.engineVersion,
+    ...upgradeStrategy(config),
+    status: server.engineVersion.apply((running) =>
+      majorVersion(running) === majorVersion(engineVersion)
+        ? "up-to-date"
+        : "upgrade-pending"
+    ),
+  };
+}
+
+// ==========================================
+// RESTORE
+// ==========================================
+
+// restoreFrom only shapes the database when it is created. Ignoring these,
+// and the name and master user a restore takes from its source, lets a
+// restored stack keep or drop the setting without Pulumi replacing the
+// database.
+const RESTORE_PROPERTIES = ["snapshotIdentifier", "restoreToPointInTime"];
+
+// The storage and Performance Insights keys cannot change once the database
+// exists. Ignoring them keeps enabling security.kms from replacing a running
+// database; it moves to the data key through a restore (see the README).
+const ENCRYPTION_PROPERTIES = ["kmsKeyId", "performanceInsightsKmsKeyId"];
+
+// "latest" or an ISO 8601 timestamp
+function pointInTime(value: string) {
+  return value === "latest"
+    ? { time: undefined, useLatestRestorableTime: true }
+    : { time: value, useLatestRestorableTime: undefined };
+}
+
+function instanceRestoreArgs(
+  restoreFrom: DatabaseRestoreSource
+): Pick<aws.rds.InstanceArgs, "snapshotIdentifier" | "restoreToPointInTime"> {
+  if ("snapshotId" in restoreFrom) {
+    return { snapshotIdentifier: restoreFrom.snapshotId };
+  }
+  const { time, useLatestRestorableTime } = pointInTime(
+    restoreFrom.pointInTime
+  );
+  return {
+    restoreToPointInTime: {
+      sourceDbInstanceIdentifier: restoreFrom.sourceInstance,
+      restoreTime: time,
+      useLatestRestorableTime,
+    },
+  };
+}
+
+function clusterRestoreArgs(
+  restoreFrom: DatabaseRestoreSource
+): Pick<aws.rds.ClusterArgs, "snapshotIdentifier" | "restoreToPointInTime"> {
+  if ("snapshotId" in restoreFrom) {
+    return { snapshotIdentifier: restoreFrom.snapshotId };
+  }
+  const { time, useLatestRestorableTime } = pointInTime(
+    restoreFrom.pointInTime
+  );
+  return {
+    restoreToPointInTime: {
+      sourceClusterIdentifier: restoreFrom.sourceInstance,
+      restoreToTime: time,
+      useLatestRestorableTime,
+    },
+  };
+}
+
+// ==========================================
+// RDS INSTANCE
+// ==========================================
+
+function createRdsInstance(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  args: DatabaseServerArgs
+): DatabaseServer {
+  const { commonTags } = config;
+  const { restoreFrom, engineVersion } = config.databaseConfig;
+  const { takeFinalSnapshot } = args;
+  const blueGreen = upgradeStrategy(config).strategy === "blue-green";
+
+  // DB parameter group for PostgreSQL optimization. A major version needs a
+  // new family, which Pulumi creates before the upgrade switches to it.
+  const dbParameterGroup = new aws.rds.ParameterGroup("pathfinder-db-params", {
+    family: `postgres${majorVersion(engineVersion)}`,
+    description: "Custom parameter group for Pathfinder PostgreSQL database",
+    parameters: instanceParameters(
+      config.databaseConfig.parameterProfile,
+      blueGreen
+    ),
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-db-params",
+      Type: "db-parameter-group",
+    },
+  });
+
+  // Primary RDS instance in private subnets
+  const dbInstance = new aws.rds.Instance(
+    "pathfinder-database-v2",
+    {
+      engine: "postgres",
+      engineVersion,
+      // Major versions go through a blue/green deployment where possible:
+      // RDS copies the instance, upgrades the copy, switches over once its
+      // checks pass and deletes the old one. Otherwise they run in place.
+      allowMajorVersionUpgrade: true,
+      blueGreenUpdate: { enabled: blueGreen },
+      instanceClass: config.dbInstanceClass || "db.t3.micro",
+      allocatedStorage: config.dbAllocatedStorage || 20,
+      maxAllocatedStorage: config.dbMaxAllocatedStorage || 100,
+      storageType: "gp3",
+      storageEncrypted: true,
+
+      // A restored database keeps the source's name, master user and storage
+      // key; the password is reset to ours after the restore
+      ...(restoreFrom
+        ? instanceRestoreArgs(restoreFrom)
+        : {
+            dbName: "pathfinder",
+            username: "pathfinder_admin",
+            kmsKeyId: args.kmsKeyId,
+          }),
+      password: args.password,
+
+      vpcSecurityGroupIds: [network.securityGroups.database],
+      dbSubnetGroupName: args.subnetGroupName,
+      parameterGroupName: dbParameterGroup.name,
+
+      publiclyAccessible: false, // Critical: no public access
+      multiAz: config.environment === "prod",
+
+      // Zero disables automated backups (enableBackups: false)
+      backupRetentionPeriod: config.dbBackupRetentionPeriod,
+      backupWindow: "03:00-04:00",
+      maintenanceWindow: "Sun:04:00-Sun:05:00",
+
+      deletionProtection: config.dbDeletionProtection || false,
+      skipFinalSnapshot: !takeFinalSnapshot,
+      finalSnapshotIdentifier: takeFinalSnapshot
+        ? createPhysicalName(
+            config,
+            "final-snapshot",
+            "pathfinder-final-snapshot"
+          )
+        : undefined,
+
+      monitoringInterval: 60,
+      monitoringRoleArn: args.monitoringRoleArn,
+      enabledCloudwatchLogsExports: ["postgresql"],
+
+      performanceInsightsEnabled: true,
+      performanceInsightsRetentionPeriod: 7,
+      performanceInsightsKmsKeyId: args.kmsKeyId,
+
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-database",
+        Type: "rds-instance",
+      },
+    },
+    {
+      ignoreChanges: [
+        ...RESTORE_PROPERTIES,
+        ...ENCRYPTION_PROPERTIES,
+        "dbName",
+        "username",
+      ],
+    }
+  );
+
+  // Read replica, prod by default (replication needs automated backups)
+  const readReplica = hasReadReplica(config)
+    ? new aws.rds.Instance("pathfinder-db-read-replica", {
+        replicateSourceDb: dbInstance.id,
+        instanceClass: config.dbInstanceClass || "db.t3.micro",
+        publiclyAccessible: false,
+        // Without this the replica gets the VPC's default group, which
+        // the applications cannot reach
+        vpcSecurityGroupIds: [network.securityGroups.database],
+
+        monitoringInterval: 60,
+        monitoringRoleArn: args.monitoringRoleArn,
+
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-db-read-replica",
+          Type: "rds-read-replica",
+        },
+      })
+    : undefined;
+
+  return {
+    instanceId: dbInstance.id,
+    endpoint: dbInstance.endpoint,
+    address: dbInstance.address,
+    port: dbInstance.port,
+    dbName: dbInstance.dbName,
+    username: dbInstance.username,
+    readerEndpoint: readReplica?.endpoint,
+    logGroupName: pulumi.interpolate`/aws/rds/instance/${dbInstance.id}/postgresql`,
+    proxyTarget: { dbInstanceIdentifier: dbInstance.identifier },
+    instances: [dbInstance],
+    engineVersion: dbInstance.engineVersionActual,
+    storageKmsKeyId: dbInstance.kmsKeyId,
+  };
+}
+
+// ==========================================
+// AURORA SERVERLESS V2
+// ==========================================
+
+/**
+ * Aurora PostgreSQL cluster with a db.serverless writer and optional
+ * readers, all scaling between serverless.minCapacity and maxCapacity ACUs
+ */
+function createAuroraCluster(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  args: DatabaseServerArgs
+): DatabaseServer {
+  const { commonTags } = config;
+  const { serverless, restoreFrom, engineVersion } = config.databaseConfig;
+  const { takeFinalSnapshot } = args;
+
+  const clusterParameterGroup = new aws.rds.ClusterParameterGroup(
+    "pathfinder-aurora-params",
+    {
+      family: `aurora-postgresql${majorVersion(engineVersion)}`,
+      description: "Custom cluster parameter group for Pathfinder Aurora",
+      parameters: clusterParameters(config.databaseConfig.parameterProfile),
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-aurora-params",
+        Type: "db-cluster-parameter-group",
+      },
+    }
+  );
+
+  const cluster = new aws.rds.Cluster(
+    "pathfinder-aurora",
+    {
+      engine: "aurora-postgresql",
+      engineMode: "provisioned",
+      engineVersion,
+      allowMajorVersionUpgrade: true,
+      ...(restoreFrom
+        ? clusterRestoreArgs(restoreFrom)
+        : { databaseName: "pathfinder", masterUsername: "pathfinder_admin" }),
+      masterPassword: args.password,
+
+      vpcSecurityGroupIds: [network.securityGroups.database],
+      dbSubnetGroupName: args.subnetGroupName,
+      dbClusterParameterGroupName: clusterParameterGroup.name,
+      storageEncrypted: true,
+      // Aurora restores re-encrypt with this key as well
+      kmsKeyId: args.kmsKeyId,
+
+      serverlessv2ScalingConfiguration: {
+        minCapacity: serverless.minCapacity,
+        maxCapacity: serverless.maxCapacity,
+        secondsUntilAutoPause:
+          serverless.minCapacity === 0
+            ? serverless.autoPauseMinutes * 60
+            : undefined,
+      },
+
+      // Aurora always keeps at least one day of backups
+      backupRetentionPeriod: Math.max(config.dbBackupRetentionPeriod, 1),
+      preferredBackupWindow: "03:00-04:00",
+      preferredMaintenanceWindow: "sun:04:00-sun:05:00",
+
+      deletionProtection: config.dbDeletionProtection || false,
+      skipFinalSnapshot: !takeFinalSnapshot,
+      finalSnapshotIdentifier: takeFinalSnapshot
+        ? createPhysicalName(
+            config,
+            "final-snapshot",
+            "pathfinder-final-snapshot"
+          )
+        : undefined,
+
+      enabledCloudwatchLogsExports: ["postgresql"],
+
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-aurora",
+        Type: "rds-cluster",
+      },
+    },
+    {
+      ignoreChanges: [
+        ...RESTORE_PROPERTIES,
+        ...ENCRYPTION_PROPERTIES,
+        "databaseName",
+        "masterUsername",
+      ],
+    }
+  );
+
+  // Writer first, then readers; readers share the capacity range and are
+  // promoted in order if the writer fails
+  const instances = Array.from(
+    { length: serverless.readers + 1 },
+    (_, index) => {
+      const name =
+        index === 0
+          ? "pathfinder-aurora-writer"
+          : `pathfinder-aurora-reader-${index}`;
+      return new aws.rds.ClusterInstance(
+        name,
+        {
+          clusterIdentifier: cluster.id,
+          instanceClass: "db.serverless",
+          engine: "aurora-postgresql",
+          engineVersion: cluster.engineVersion,
+          dbSubnetGroupName: args.subnetGroupName,
+          publiclyAccessible: false,
+          promotionTier: index === 0 ? 0 : 1,
+
+          monitoringInterval: 60,
+          monitoringRoleArn: args.monitoringRoleArn,
+          performanceInsightsEnabled: true,
+          performanceInsightsRetentionPeriod: 7,
+          performanceInsightsKmsKeyId: args.kmsKeyId,
+
+          tags: {
+            ...commonTags,
+            Name: name,
+            Type: index === 0 ? "rds-cluster-writer" : "rds-cluster-reader",
+          },
+        },
+        { ignoreChanges: ENCRYPTION_PROPERTIES }
+      );
+    }
+  );
+  const writer = instances[0];
+
+  return {
+    instanceId: writer.id,
+    // Cluster endpoints are bare hostnames; add the port to match RDS
+    endpoint: pulumi.interpolate`${cluster.endpoint}:${cluster.port}`,
+    address: cluster.endpoint,
+    port: cluster.port,
+    dbName: cluster.databaseName,
+    username: cluster.masterUsername,
+    // With no readers the reader endpoint resolves to the writer
+    readerEndpoint: pulumi.interpolate`${cluster.readerEndpoint}:${cluster.port}`,
+    logGroupName: pulumi.interpolate`/aws/rds/cluster/${cluster.clusterIdentifier}/postgresql`,
+    proxyTarget: { dbClusterIdentifier: cluster.clusterIdentifier },
+    instances,
+    engineVersion: cluster.engineVersionActual,
+    storageKmsKeyId: cluster.kmsKeyId,
+  };
+}
+
+// ==========================================
+// RDS PROXY
+// ==========================================
+
+/**
+ * RDS Proxy pooling the application's connections. It logs in with the
+ * app role's secret, so it follows rotations on its own.
+ */
+function createDatabaseProxy(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  server: DatabaseServer,
+  secret: aws.secretsmanager.Secret
+) {
+  const { commonTags } = config;
+  const { proxy: proxyConfig } = config.databaseConfig;
+
+  const proxyRole = new aws.iam.Role("pathfinder-db-proxy-role", {
+    name: createPhysicalName(config, "db-proxy-role"),
+    assumeRolePolicy: JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Action: "sts:AssumeRole",
+          Effect: "Allow",
+          Principal: {
+            Service: "rds.amazonaws.com",
+          },
+        },
+      ],
+    }),
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-db-proxy-role",
+      Type: "iam-role",
+    },
+  });
+
+  new aws.iam.RolePolicy("pathfinder-db-proxy-policy", {
+    role: proxyRole.id,
+    policy: secret.arn.apply((secretArn) =>
+      JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Effect: "Allow",
+            Action: ["secretsmanager:GetSecretValue"],
+            Resource: secretArn,
+          },
+        ],
+      })
+    ),
+  });
+
+  // Networking creates this group whenever the proxy is enabled
+  const proxySecurityGroup = network.securityGroups.databaseProxy;
+  if (!proxySecurityGroup) {
+    throw new Error(
+      "database.proxy is enabled but networking created no databaseProxy security group"
+    );
+  }
+
+  const proxy = new aws.rds.Proxy("pathfinder-db-proxy", {
+    name: createPhysicalName(config, "db-proxy"),
+    engineFamily: "POSTGRESQL",
+    roleArn: proxyRole.arn,
+    auths: [
+      {
+        authScheme: "SECRETS",
+        secretArn: secret.arn,
+        iamAuth: "DISABLED",
+        clientPasswordAuthType: "POSTGRES_SCRAM_SHA_256",
+      },
+    ],
+    vpcSubnetIds: network.databaseSubnetIds,
+    vpcSecurityGroupIds: [proxySecurityGroup],
+    requireTls: true,
+    idleClientTimeout: proxyConfig.idleClientTimeoutMinutes * 60,
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-db-proxy",
+      Type: "rds-proxy",
+    },
+  });
+
+  const targetGroup = new aws.rds.ProxyDefaultTargetGroup(
+    "pathfinder-db-proxy-target-group",
+    {
+      dbProxyName: proxy.name,
+      connectionPoolConfig: {
+        maxConnectionsPercent: proxyConfig.maxConnectionsPercent,
+        maxIdleConnectionsPercent: Math.min(
+          50,
+          proxyConfig.maxConnectionsPercent
+        ),
+        connectionBorrowTimeout: 120,
+      },
+    }
+  );
+
+  new aws.rds.ProxyTarget(
+    "pathfinder-db-proxy-target",
+    {
+      dbProxyName: proxy.name,
+      targetGroupName: targetGroup.name,
+      ...server.proxyTarget,
+    },
+    { dependsOn: server.instances }
+  );
+
+  return {
+    // Proxy endpoints are bare hostnames; add the port to match RDS
+    endpoint: pulumi.interpolate`${proxy.endpoint}:5432`,
+    address: proxy.endpoint,
+  };
+}
+
+// ==========================================
+// CREDENTIAL ROTATION
+// ==========================================
+
+// AWS's single-user PostgreSQL rotation function, published in the
+// Serverless Application Repository
+const ROTATION_APPLICATION_ID =
+  "arn:aws:serverlessrepo:us-east-1:297356227824:applications/SecretsManagerRDSPostgreSQLRotationSingleUser";
+
+/**
+ * Rotate the master and role passwords on a schedule. One Lambda rotates
+ * every secret, each logging in as its own user. It runs in the private
+ * subnets and reaches Secrets Manager through the NAT or the secretsmanager
+ * interface endpoint.
+ */
+function createSecretRotation(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  secrets: { name: string; secret: aws.secretsmanager.Secret }[],
+  dependsOn: pulumi.Resource[]
+) {
+  const { rotation } = config.databaseConfig;
+
+  const rotationApp = new aws.serverlessrepository.CloudFormationStack(
+    "pathfinder-db-rotation",
+    {
+      name: createPhysicalName(config, "db-rotation"),
+      applicationId: ROTATION_APPLICATION_ID,
+      capabilities: ["CAPABILITY_IAM", "CAPABILITY_RESOURCE_POLICY"],
+      parameters: {
+        endpoint: `https://secretsmanager.${config.awsRegion}.amazonaws.com`,
+        functionName: createPhysicalName(config, "db-rotation"),
+        vpcSubnetIds: network.zonalPrivateSubnetIds.apply((ids) =>
+          ids.join(",")
+        ),
+        vpcSecurityGroupIds: network.securityGroups.databaseFunctions,
+        // Alphanumeric passwords, like the initial one, stay URL-safe
+        excludeCharacters: " !\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~",
+      },
+      tags: {
+        ...config.commonTags,
+        Name: "pathfinder-db-rotation",
+        Type: "serverless-application",
+      },
+    }
+  );
+
+  const rotationLambdaArn = rotationApp.outputs.apply(
+    (outputs) => outputs["RotationLambdaARN"]
+  );
+
+  // Rotating a role before it exists would fail, so wait for provisioning
+  for (const { name, secret } of secrets) {
+    new aws.secretsmanager.SecretRotation(
+      name,
+      {
+        secretId: secret.id,
+        rotationLambdaArn,
+        rotationRules: {
+          automaticallyAfterDays: rotation.intervalDays,
+        },
+      },
+      { dependsOn }
+    );
+  }
+}
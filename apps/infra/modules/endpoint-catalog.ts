@@ -0,0 +1,52 @@
+// ==========================================
+// INTERFACE VPC ENDPOINT CATALOG
+// ==========================================
+
+/**
+ * Interface endpoints a stack can enable via networking.interfaceEndpoints,
+ * keyed by the service suffix of com.amazonaws.<region>.<service>. All of
+ * them are placed in the private subnets with private DNS, so SDKs and the
+ * ECS agent reach them through the normal service hostnames.
+ */
+export const INTERFACE_ENDPOINTS = {
+  "ecr.api": "ECR authentication and image metadata (ECS, CodeBuild)",
+  "ecr.dkr": "Image pulls and pushes (ECS, CodeBuild)",
+  logs: "CloudWatch Logs (ECS, CodeBuild)",
+  secretsmanager:
+    "Database and application secrets (ECS, CodeBuild, credential rotation)",
+  ssm: "Parameter Store secrets (ECS)",
+  sts: "Role assumption from SDK clients",
+  ecs: "Service deployments from CodeBuild",
+  monitoring: "CloudWatch metrics and alarms API",
+  codebuild: "CodeBuild API from inside the VPC",
+  kms: "KMS for customer-managed keys",
+  "codeartifact.api": "Package mirror authentication for builds",
+  "codeartifact.repositories": "Package downloads for builds",
+} as const;
+
+export type InterfaceEndpoint = keyof typeof INTERFACE_ENDPOINTS;
+
+export const INTERFACE_ENDPOINT_NAMES = Object.keys(
+  INTERFACE_ENDPOINTS
+) as InterfaceEndpoint[];
+
+export const DEFAULT_INTERFACE_ENDPOINTS: InterfaceEndpoint[] = [
+  "ecr.api",
+  "ecr.dkr",
+  "codebuild",
+  "logs",
+  "secretsmanager",
+  "ssm",
+  "sts",
+  "ecs",
+];
+
+// What ECS tasks and the deploy step need when natMode is "none"
+export const NO_EGRESS_ENDPOINTS: InterfaceEndpoint[] = [
+  "ecr.api",
+  "ecr.dkr",
+  "logs",
+  "secretsmanager",
+  "ssm",
+  "ecs",
+];
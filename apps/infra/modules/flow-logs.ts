@@ -0,0 +1,456 @@
+import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
+import {
+  CommonConfig,
+  FlowLogsOutputs,
+  KmsOutputs,
+  NetworkOutputs,
+} from "../types";
+import { createPhysicalName, createPhysicalPath } from "../utils";
+
+// Fields written for every flow, in order. Parquet columns and Logs Insights
+// fields use the underscore form (pkt-dstaddr -> pkt_dstaddr).
+const FLOW_LOG_FIELDS: Array<{ field: string; type: string }> = [
+  { field: "version", type: "int" },
+  { field: "account-id", type: "string" },
+  { field: "interface-id", type: "string" },
+  { field: "srcaddr", type: "string" },
+  { field: "dstaddr", type: "string" },
+  { field: "srcport", type: "int" },
+  { field: "dstport", type: "int" },
+  { field: "protocol", type: "int" },
+  { field: "packets", type: "bigint" },
+  { field: "bytes", type: "bigint" },
+  { field: "start", type: "bigint" },
+  { field: "end", type: "bigint" },
+  { field: "action", type: "string" },
+  { field: "log-status", type: "string" },
+  { field: "vpc-id", type: "string" },
+  { field: "subnet-id", type: "string" },
+  { field: "pkt-srcaddr", type: "string" },
+  { field: "pkt-dstaddr", type: "string" },
+  { field: "flow-direction", type: "string" },
+];
+
+const column = (field: string) => field.replace(/-/g, "_");
+
+const LOG_FORMAT = FLOW_LOG_FIELDS.map(({ field }) => `\${${field}}`).join(" ");
+
+const quoteList = (values: string[]) =>
+  values.map((value) => `'${value}'`).join(", ");
+
+// Database subnets and NAT interfaces, resolved for the saved queries
+function queryInputs(network: NetworkOutputs) {
+  return pulumi.all([
+    pulumi.all(network.databaseSubnetIds),
+    pulumi.all(network.natNetworkInterfaceIds),
+  ]);
+}
+
+export function createFlowLogs(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  kms?: KmsOutputs
+): FlowLogsOutputs {
+  return config.networkConfig.flowLogs.destination === "s3"
+    ? createS3FlowLogs(config, network)
+    : createCloudWatchFlowLogs(config, network, kms);
+}
+
+// ==========================================
+// S3 (PARQUET) + GLUE + ATHENA
+// ==========================================
+
+function createS3FlowLogs(
+  config: CommonConfig,
+  network: NetworkOutputs
+): FlowLogsOutputs {
+  const { commonTags, networkConfig } = config;
+  const { retentionDays } = networkConfig.flowLogs;
+  const { accountId } = aws.getCallerIdentityOutput();
+
+  // Bucket names are global, so include the account
+  const bucket = new aws.s3.BucketV2("pathfinder-flow-logs-bucket", {
+    bucket: pulumi.interpolate`${createPhysicalName(config, "flow-logs")}-${accountId}`,
+    // Stacks with a protected database also keep their audit trail
+    forceDestroy: !config.dbDeletionProtection,
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-flow-logs-bucket",
+      Type: "s3-bucket",
+    },
+  });
+
+  new aws.s3.BucketPublicAccessBlock("pathfinder-flow-logs-public-access", {
+    bucket: bucket.id,
+    blockPublicAcls: true,
+    blockPublicPolicy: true,
+    ignorePublicAcls: true,
+    restrictPublicBuckets: true,
+  });
+
+  new aws.s3.BucketServerSideEncryptionConfigurationV2(
+    "pathfinder-flow-logs-encryption",
+    {
+      bucket: bucket.id,
+      rules: [
+        {
+          applyServerSideEncryptionByDefault: { sseAlgorithm: "AES256" },
+        },
+      ],
+    }
+  );
+
+  new aws.s3.BucketLifecycleConfigurationV2("pathfinder-flow-logs-lifecycle", {
+    bucket: bucket.id,
+    rules: [
+      {
+        id: "expire-flow-logs",
+        status: "Enabled",
+        filter: { prefix: "AWSLogs/" },
+        expiration: { days: retentionDays },
+      },
+      {
+        id: "expire-query-results",
+        status: "Enabled",
+        filter: { prefix: "athena-results/" },
+        expiration: { days: 7 },
+      },
+    ],
+  });
+
+  // Log delivery writes with its own service principal
+  new aws.s3.BucketPolicy("pathfinder-flow-logs-bucket-policy", {
+    bucket: bucket.id,
+    policy: pulumi.all([bucket.arn, accountId]).apply(([arn, account]) =>
+      JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Sid: "AWSLogDeliveryWrite",
+            Effect: "Allow",
+            Principal: { Service: "delivery.logs.amazonaws.com" },
+            Action: "s3:PutObject",
+            Resource: `${arn}/AWSLogs/aws-account-id=${account}/*`,
+            Condition: {
+              StringEquals: {
+                "s3:x-amz-acl": "bucket-owner-full-control",
+                "aws:SourceAccount": account,
+              },
+            },
+          },
+          {
+            Sid: "AWSLogDeliveryAclCheck",
+            Effect: "Allow",
+            Principal: { Service: "delivery.logs.amazonaws.com" },
+            Action: "s3:GetBucketAcl",
+            Resource: arn,
+            Condition: { StringEquals: { "aws:SourceAccount": account } },
+          },
+          {
+            Sid: "DenyInsecureTransport",
+            Effect: "Deny",
+            Principal: "*",
+            Action: "s3:*",
+            Resource: [arn, `${arn}/*`],
+            Condition: { Bool: { "aws:SecureTransport": "false" } },
+          },
+        ],
+      })
+    ),
+  });
+
+  const flowLog = new aws.ec2.FlowLog("pathfinder-vpc-flow-log", {
+    vpcId: network.vpcId,
+    trafficType: "ALL",
+    logDestinationType: "s3",
+    logDestination: bucket.arn,
+    logFormat: LOG_FORMAT,
+    maxAggregationInterval: 60,
+    destinationOptions: {
+      fileFormat: "parquet",
+      hiveCompatiblePartitions: true,
+      perHourPartition: true,
+    },
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-vpc-flow-log",
+      Type: "flow-log",
+    },
+  });
+
+  // Glue table over the hive partitions, with partition projection so no
+  // crawler or MSCK REPAIR is needed
+  const database = new aws.glue.CatalogDatabase("pathfinder-flow-logs-db", {
+    name: createPhysicalName(config, "flow_logs").replace(/-/g, "_"),
+    description: "VPC flow logs",
+  });
+
+  const location = pulumi.interpolate`s3://${bucket.bucket}/AWSLogs/aws-account-id=${accountId}/aws-service=vpcflowlogs/aws-region=${config.awsRegion}/`;
+  const table = new aws.glue.CatalogTable("pathfinder-flow-logs-table", {
+    databaseName: database.name,
+    name: "vpc_flow_logs",
+    tableType: "EXTERNAL_TABLE",
+    parameters: {
+      EXTERNAL: "TRUE",
+      "parquet.compression": "SNAPPY",
+      "projection.enabled": "true",
+      "projection.year.type": "integer",
+      "projection.year.range": "2024,2099",
+      "projection.month.type": "integer",
+      "projection.month.range": "1,12",
+      "projection.month.digits": "2",
+      "projection.day.type": "integer",
+      "projection.day.range": "1,31",
+      "projection.day.digits": "2",
+      "projection.hour.type": "integer",
+      "projection.hour.range": "0,23",
+      "projection.hour.digits": "2",
+      "storage.location.template": pulumi.interpolate`${location}year=\${year}/month=\${month}/day=\${day}/hour=\${hour}`,
+    },
+    partitionKeys: ["year", "month", "day", "hour"].map((name) => ({
+      name,
+      type: "string",
+    })),
+    storageDescriptor: {
+      location,
+      inputFormat:
+        "org.apache.hadoop.hive.ql.io.parquet.MapredParquetInputFormat",
+      outputFormat:
+        "org.apache.hadoop.hive.ql.io.parquet.MapredParquetOutputFormat",
+      serDeInfo: {
+        serializationLibrary:
+          "org.apache.hadoop.hive.ql.io.parquet.serde.ParquetHiveSerDe",
+      },
+      columns: FLOW_LOG_FIELDS.map(({ field, type }) => ({
+        name: column(field),
+        type,
+      })),
+    },
+  });
+
+  const workgroup = new aws.athena.Workgroup("pathfinder-flow-logs-workgroup", {
+    name: createPhysicalName(config, "flow-logs"),
+    forceDestroy: true,
+    configuration: {
+      enforceWorkgroupConfiguration: true,
+      engineVersion: { selectedEngineVersion: "Athena engine version 3" },
+      resultConfiguration: {
+        outputLocation: pulumi.interpolate`s3://${bucket.bucket}/athena-results/`,
+        encryptionConfiguration: { encryptionOption: "SSE_S3" },
+      },
+    },
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-flow-logs-workgroup",
+      Type: "athena-workgroup",
+    },
+  });
+
+  const tableName = pulumi.interpolate`"${database.name}"."${table.name}"`;
+  const queries: Record<
+    string,
+    { description: string; query: pulumi.Output<string> }
+  > = {
+    "rejected-database-traffic": {
+      description:
+        "Rejected connections to the database subnets on 5432, last 24 hours",
+      query: pulumi.all([tableName, queryInputs(network)]).apply(
+        ([
+          table,
+          [databaseSubnets],
+        ]) => `SELECT srcaddr, pkt_srcaddr, dstaddr, dstport, count(*) AS flows, sum(packets) AS packets
+FROM ${table}
+WHERE action = 'REJECT'
+  AND dstport = 5432
+  AND subnet_id IN (${quoteList(databaseSubnets)})
+  AND from_unixtime(start) > now() - interval '1' day
+GROUP BY srcaddr, pkt_srcaddr, dstaddr, dstport
+ORDER BY flows DESC
+LIMIT 100`
+      ),
+    },
+    "top-talkers": {
+      description: "Source/destination pairs by bytes, last 24 hours",
+      query: tableName.apply(
+        (
+          table
+        ) => `SELECT srcaddr, dstaddr, sum(bytes) AS bytes, sum(packets) AS packets
+FROM ${table}
+WHERE action = 'ACCEPT'
+  AND from_unixtime(start) > now() - interval '1' day
+GROUP BY srcaddr, dstaddr
+ORDER BY bytes DESC
+LIMIT 50`
+      ),
+    },
+    // NODATA and SKIPDATA records have "-" addresses, and Athena may cast
+    // before it applies the log_status filter, so the cast must not throw
+    "nat-egress-destinations": {
+      description:
+        "Internet destinations reached through NAT, by bytes, last 24 hours",
+      query: pulumi.all([tableName, queryInputs(network)]).apply(
+        ([
+          table,
+          [, natInterfaces],
+        ]) => `SELECT pkt_srcaddr AS source, pkt_dstaddr AS destination, dstport, sum(bytes) AS bytes
+FROM ${table}
+WHERE interface_id IN (${quoteList(natInterfaces)})
+  AND flow_direction = 'egress'
+  AND log_status = 'OK'
+  AND NOT contains('${networkConfig.vpcCidr}', TRY_CAST(pkt_dstaddr AS IPADDRESS))
+  AND from_unixtime(start) > now() - interval '1' day
+GROUP BY pkt_srcaddr, pkt_dstaddr, dstport
+ORDER BY bytes DESC
+LIMIT 100`
+      ),
+    },
+  };
+
+  // Without NAT interfaces (natMode "none" or an existing VPC) there is no
+  // egress to report on
+  if (network.natNetworkInterfaceIds.length === 0) {
+    delete queries["nat-egress-destinations"];
+  }
+
+  for (const [name, { description, query }] of Object.entries(queries)) {
+    new aws.athena.NamedQuery(`pathfinder-flow-logs-${name}`, {
+      name,
+      description,
+      database: database.name,
+      workgroup: workgroup.name,
+      query,
+    });
+  }
+
+  return {
+    flowLogId: flowLog.id,
+    destination: "s3",
+    bucketName: bucket.bucket,
+    athenaWorkgroup: workgroup.name,
+    glueDatabase: database.name,
+    glueTable: table.name,
+    savedQueries: Object.keys(queries),
+  };
+}
+
+// ==========================================
+// CLOUDWATCH LOGS + LOGS INSIGHTS
+// ==========================================
+
+function createCloudWatchFlowLogs(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  kms?: KmsOutputs
+): FlowLogsOutputs {
+  const { commonTags, networkConfig } = config;
+  const { retentionDays } = networkConfig.flowLogs;
+  const logGroup = new aws.cloudwatch.LogGroup("pathfinder-flow-logs", {
+    name: `/vpc/${createPhysicalPath(config, "flow-logs")}`,
+    retentionInDays: retentionDays,
+    kmsKeyId: kms?.logs.keyArn,
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-flow-logs",
+      Type: "log-group",
+    },
+  });
+
+  const deliveryRole = new aws.iam.Role("pathfinder-flow-logs-role", {
+    name: createPhysicalName(config, "flow-logs-role"),
+    assumeRolePolicy: JSON.stringify({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Action: "sts:AssumeRole",
+          Effect: "Allow",
+          Principal: { Service: "vpc-flow-logs.amazonaws.com" },
+        },
+      ],
+    }),
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-flow-logs-role",
+      Type: "iam-role",
+    },
+  });
+
+  new aws.iam.RolePolicy("pathfinder-flow-logs-policy", {
+    role: deliveryRole.id,
+    policy: logGroup.arn.apply((arn) =>
+      JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Effect: "Allow",
+            Action: [
+              "logs:CreateLogStream",
+              "logs:PutLogEvents",
+              "logs:DescribeLogStreams",
+            ],
+            Resource: [arn, `${arn}:*`],
+          },
+        ],
+      })
+    ),
+  });
+
+  const flowLog = new aws.ec2.FlowLog("pathfinder-vpc-flow-log", {
+    vpcId: network.vpcId,
+    trafficType: "ALL",
+    logDestinationType: "cloud-watch-logs",
+    logDestination: logGroup.arn,
+    iamRoleArn: deliveryRole.arn,
+    logFormat: LOG_FORMAT,
+    maxAggregationInterval: 60,
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-vpc-flow-log",
+      Type: "flow-log",
+    },
+  });
+
+  // Custom-format records are plain text; name the fields once
+  const parse = `parse @message "${FLOW_LOG_FIELDS.map(() => "*").join(" ")}" as ${FLOW_LOG_FIELDS.map(({ field }) => column(field)).join(", ")}`;
+
+  const queries: Record<string, pulumi.Output<string>> = {
+    "rejected-database-traffic": queryInputs(network).apply(
+      ([databaseSubnets]) => `${parse}
+| filter action = "REJECT" and dstport = 5432 and subnet_id in [${databaseSubnets.map((id) => `"${id}"`).join(", ")}]
+| stats count(*) as flows, sum(packets) as packets by srcaddr, pkt_srcaddr, dstaddr
+| sort flows desc
+| limit 100`
+    ),
+    "top-talkers": pulumi.output(`${parse}
+| filter action = "ACCEPT"
+| stats sum(bytes) as total_bytes, sum(packets) as total_packets by srcaddr, dstaddr
+| sort total_bytes desc
+| limit 50`),
+    "nat-egress-destinations": queryInputs(network).apply(
+      ([, natInterfaces]) => `${parse}
+| filter interface_id in [${natInterfaces.map((id) => `"${id}"`).join(", ")}] and flow_direction = "egress" and not isIpv4InSubnet(pkt_dstaddr, "${networkConfig.vpcCidr}")
+| stats sum(bytes) as total_bytes by pkt_srcaddr, pkt_dstaddr, dstport
+| sort total_bytes desc
+| limit 100`
+    ),
+  };
+
+  if (network.natNetworkInterfaceIds.length === 0) {
+    delete queries["nat-egress-destinations"];
+  }
+
+  for (const [name, queryString] of Object.entries(queries)) {
+    new aws.cloudwatch.QueryDefinition(`pathfinder-flow-logs-${name}`, {
+      name: `${createPhysicalPath(config, "flow-logs")}/${name}`,
+      logGroupNames: [logGroup.name],
+      queryString,
+    });
+  }
+
+  return {
+    flowLogId: flowLog.id,
+    destination: "cloudwatch",
+    logGroupName: logGroup.name,
+    savedQueries: Object.keys(queries),
+  };
+}
@@ -1,28 +1,33 @@
 import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
 import { CommonConfig } from "../types";
+import { createPhysicalName } from "../utils";
 
 export function createGithubOidc(config: CommonConfig) {
   const { commonTags } = config;
 
-  // GitHub OIDC Provider for GitHub Actions
-  const githubOidcProvider = new aws.iam.OpenIdConnectProvider("github-oidc-provider", {
-    url: "https://token.actions.githubusercontent.com",
-    clientIdLists: ["sts.amazonaws.com"],
-          thumbprintLists: [
-      "6938fd4d98bab03faadb97b34396831e3780aea1", // GitHub Actions OIDC thumbprint
-      "1c58a3a8518e8759bf075b76b750d4f2df264fcd", // Backup thumbprint
-    ],
-    tags: {
-      ...commonTags,
-      Name: "github-oidc-provider",
-      Type: "oidc-provider",
-    },
-  });
+  // GitHub OIDC Provider for GitHub Actions. The provider is account-wide, so
+  // additional stacks in the same account pass the existing provider's ARN.
+  const providerArn = config.githubOidcProviderArn
+    ? pulumi.output(config.githubOidcProviderArn)
+    : new aws.iam.OpenIdConnectProvider("github-oidc-provider", {
+        url: "https://token.actions.githubusercontent.com",
+        clientIdLists: ["sts.amazonaws.com"],
+        thumbprintLists: [
+          "6938fd4d98bab03faadb97b34396831e3780aea1", // GitHub Actions OIDC thumbprint
+          "1c58a3a8518e8759bf075b76b750d4f2df264fcd", // Backup thumbprint
+        ],
+        tags: {
+          ...commonTags,
+          Name: "github-oidc-provider",
+          Type: "oidc-provider",
+        },
+      }).arn;
 
   // Deployment Role for GitHub Actions (read-write access)
   const deploymentRole = new aws.iam.Role("github-deployment-role", {
-    name: "pathfinder-github-deployment-role",
-    assumeRolePolicy: githubOidcProvider.arn.apply(providerArn => JSON.stringify({
+    name: createPhysicalName(config, "github-deployment-role", "pathfinder-github-deployment-role"),
+    assumeRolePolicy: providerArn.apply(providerArn => JSON.stringify({
       Version: "2012-10-17",
       Statement: [
         {
@@ -52,8 +57,8 @@ export function createGithubOidc(config: CommonConfig) {
 
   // Build Role for GitHub Actions (CodeBuild access)
   const buildRole = new aws.iam.Role("github-build-role", {
-    name: "pathfinder-github-build-role",
-    assumeRolePolicy: githubOidcProvider.arn.apply(providerArn => JSON.stringify({
+    name: createPhysicalName(config, "github-build-role", "pathfinder-github-build-role"),
+    assumeRolePolicy: providerArn.apply(providerArn => JSON.stringify({
       Version: "2012-10-17",
       Statement: [
         {
@@ -83,8 +88,8 @@ export function createGithubOidc(config: CommonConfig) {
 
   // Read-only Role for GitHub Actions (status checks, etc.)
   const readOnlyRole = new aws.iam.Role("github-readonly-role", {
-    name: "pathfinder-github-readonly-role",
-    assumeRolePolicy: githubOidcProvider.arn.apply(providerArn => JSON.stringify({
+    name: createPhysicalName(config, "github-readonly-role", "pathfinder-github-readonly-role"),
+    assumeRolePolicy: providerArn.apply(providerArn => JSON.stringify({
       Version: "2012-10-17",
       Statement: [
         {
@@ -226,8 +231,8 @@ export function createGithubOidc(config: CommonConfig) {
   });
 
   return {
-    providerArn: githubOidcProvider.arn,
-    providerUrl: githubOidcProvider.url,
+    providerArn,
+    providerUrl: pulumi.output("https://token.actions.githubusercontent.com"),
     deploymentRoleArn: deploymentRole.arn,
     buildRoleArn: buildRole.arn,
     readOnlyRoleArn: readOnlyRole.arn,
@@ -0,0 +1,182 @@
+import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
+import {
+  ApplicationOutputs,
+  CommonConfig,
+  DatabaseOutputs,
+  IAMPolicyStatement,
+  KmsKey,
+  KmsKeyDomain,
+  KmsOutputs,
+} from "../types";
+import { createPhysicalPath } from "../utils";
+
+interface KeyContext {
+  accountId: string;
+  region: string;
+}
+
+interface KeyDefinition {
+  description: string;
+  /** Statements after the account's own, for services that use the key */
+  statements: (context: KeyContext) => IAMPolicyStatement[];
+}
+
+const KEYS: Record<KmsKeyDomain, KeyDefinition> = {
+  // RDS and EC2 use the key through grants they create with the deploying
+  // principal's IAM permissions, so the account statement covers them
+  data: {
+    description: "Database storage, Performance Insights and EBS volumes",
+    statements: () => [],
+  },
+  // CloudWatch Logs encrypts as itself, limited to this account's log groups
+  logs: {
+    description: "CloudWatch log groups",
+    statements: ({ accountId, region }) => [
+      {
+        Effect: "Allow",
+        Principal: { Service: `logs.${region}.amazonaws.com` },
+        Action: [
+          "kms:Encrypt*",
+          "kms:Decrypt*",
+          "kms:ReEncrypt*",
+          "kms:GenerateDataKey*",
+          "kms:Describe*",
+        ],
+        Resource: "*",
+        Condition: {
+          ArnLike: {
+            "kms:EncryptionContext:aws:logs:arn": `arn:aws:logs:${region}:${accountId}:log-group:*`,
+          },
+        },
+      },
+    ],
+  },
+  // Anyone in the account may use the key, but only through Secrets Manager,
+  // as with the aws/secretsmanager key. secretsmanager:GetSecretValue in the
+  // roles' IAM policies stays the only gate on reading a secret.
+  secrets: {
+    description: "Secrets Manager secrets",
+    statements: ({ accountId, region }) => [
+      {
+        Effect: "Allow",
+        Principal: { AWS: "*" },
+        Action: [
+          "kms:Encrypt",
+          "kms:Decrypt",
+          "kms:ReEncrypt*",
+          "kms:GenerateDataKey*",
+          "kms:CreateGrant",
+          "kms:DescribeKey",
+        ],
+        Resource: "*",
+        Condition: {
+          StringEquals: {
+            "kms:CallerAccount": accountId,
+            "kms:ViaService": `secretsmanager.${region}.amazonaws.com`,
+          },
+        },
+      },
+    ],
+  },
+  // ECR creates its own grant when a repository is created; pushes and pulls
+  // go through that grant
+  artifacts: {
+    description: "ECR container images",
+    statements: () => [],
+  },
+};
+
+/**
+ * Customer-managed keys, one per domain, with yearly rotation. Each key
+ * policy gives the account full control, so IAM policies decide who
+ * administers and uses the keys, plus the service access above.
+ */
+export function createKms(config: CommonConfig): KmsOutputs {
+  const { commonTags } = config;
+  const { deletionWindowDays } = config.securityConfig.kms;
+  const accountId = aws.getCallerIdentityOutput().accountId;
+
+  const keys = Object.entries(KEYS).map(([domain, definition]) => {
+    const resourceName = `pathfinder-kms-${domain}`;
+
+    const key = new aws.kms.Key(resourceName, {
+      description: `Pathfinder ${config.environment}: ${definition.description}`,
+      enableKeyRotation: true,
+      deletionWindowInDays: deletionWindowDays,
+      policy: accountId.apply((accountId) =>
+        JSON.stringify({
+          Version: "2012-10-17",
+          Statement: [
+            {
+              Sid: "AccountAdministration",
+              Effect: "Allow",
+              Principal: { AWS: `arn:aws:iam::${accountId}:root` },
+              Action: "kms:*",
+              Resource: "*",
+            },
+            ...definition.statements({ accountId, region: config.awsRegion }),
+          ],
+        })
+      ),
+      tags: {
+        ...commonTags,
+        Name: resourceName,
+        Type: "kms-key",
+        Domain: domain,
+      },
+    });
+
+    const alias = new aws.kms.Alias(`${resourceName}-alias`, {
+      name: `alias/${createPhysicalPath(config, `kms/${domain}`)}`,
+      targetKeyId: key.keyId,
+    });
+
+    return [domain, { keyArn: key.arn, aliasName: alias.name }];
+  });
+
+  return Object.fromEntries(keys) as Record<KmsKeyDomain, KmsKey>;
+}
+
+/**
+ * Resources still outside the customer-managed keys, each with how to move
+ * it. The database and ECR repositories keep the encryption they were
+ * created with; S3 flow logs and their Athena results use SSE-S3.
+ */
+export function unmigratedResources(
+  config: CommonConfig,
+  kms: KmsOutputs,
+  database: DatabaseOutputs,
+  applications: ApplicationOutputs[]
+): pulumi.Output<string[]> {
+  const { flowLogs } = config.networkConfig;
+  const repositories = pulumi.all(
+    applications.map(({ container }) =>
+      pulumi.all([container.repositoryName, container.repositoryKmsKey])
+    )
+  );
+
+  return pulumi
+    .all([
+      kms.data.keyArn,
+      kms.artifacts.keyArn,
+      database.storageKmsKeyId,
+      repositories,
+    ])
+    .apply(([dataKey, artifactsKey, storageKey, repositories]) => [
+      ...(storageKey === dataKey
+        ? []
+        : [
+            "Database storage: restore from a snapshot copied under the data key",
+          ]),
+      ...repositories
+        .filter(([, key]) => key !== artifactsKey)
+        .map(
+          ([name]) =>
+            `ECR repository ${name}: recreate it and push the images again`
+        ),
+      ...(flowLogs.enabled && flowLogs.destination === "s3"
+        ? ["Flow log bucket and Athena results: SSE-S3 only"]
+        : []),
+    ]);
+}
@@ -1,25 +1,54 @@
+import * as aws from "@pulumi/aws";
 import * as awsx from "@pulumi/awsx";
-import { CommonConfig, NetworkOutputs } from "../types";
+import { ApplicationConfig, CommonConfig, LoadBalancerOutputs, NetworkOutputs } from "../types";
+import { APPLICATION_PORT } from "./container";
 
-export function createLoadBalancer(config: CommonConfig, network: NetworkOutputs) {
-  const { commonTags } = config;
+export function createLoadBalancer(config: CommonConfig, network: NetworkOutputs, defaultApp?: ApplicationConfig) {
+  const { commonTags, features, securityConfig, networkConfig } = config;
+
+  // HTTPS listener plus an HTTP -> HTTPS redirect when SSL is enabled;
+  // otherwise awsx creates its default HTTP listener
+  const listeners = features.enableSSL
+    ? [
+        {
+          port: 80,
+          protocol: "HTTP",
+          defaultActions: [
+            {
+              type: "redirect",
+              redirect: { port: "443", protocol: "HTTPS", statusCode: "HTTP_301" },
+            },
+          ],
+        },
+        {
+          port: 443,
+          protocol: "HTTPS",
+          sslPolicy: "ELBSecurityPolicy-TLS13-1-2-2021-06",
+          certificateArn: securityConfig.sslCertificateArn,
+        },
+      ]
+    : undefined;
 
   // Simple working load balancer (copied from legacy)
   const lb = new awsx.lb.ApplicationLoadBalancer("pathfinder-lb", {
     subnetIds: network.publicSubnetIds,
     securityGroups: [network.securityGroups.alb],
+    // Dual-stack: AAAA records for IPv6 clients, IPv4 to the targets
+    ipAddressType: networkConfig.ipv6 ? "dualstack" : undefined,
+    listeners,
     tags: {
       ...commonTags,
       Name: "pathfinder-lb",
       Type: "application-load-balancer",
     },
+    // Serves the default application; other apps get listener rules
     defaultTargetGroup: {
-      port: 3000,
+      port: APPLICATION_PORT,
       protocol: "HTTP",
       targetType: "ip", // Required for Fargate
       healthCheck: {
         enabled: true,
-        path: "/",
+        path: defaultApp?.healthCheckPath ?? "/",
         healthyThreshold: 2,
         unhealthyThreshold: 3,
         timeout: 30,
@@ -29,15 +58,84 @@ export function createLoadBalancer(config: CommonConfig, network: NetworkOutputs
     },
   });
 
+  // The certificate is issued for the domain, not the ALB hostname
+  const baseUrl = lb.loadBalancer.dnsName.apply(dns =>
+    features.enableSSL ? `https://${config.domainName ?? dns}` : `http://${dns}`
+  );
+
   return {
     albArn: lb.loadBalancer.arn,
     albDnsName: lb.loadBalancer.dnsName,
     albZoneId: lb.loadBalancer.zoneId,
+    // The forwarding listener is the last one (HTTPS when SSL is enabled)
+    listenerArn: lb.listeners.apply(listeners => {
+      const listener = listeners?.[listeners.length - 1];
+      if (!listener) {
+        throw new Error("The load balancer has no listener to attach application routes to");
+      }
+      return listener.arn;
+    }),
     targetGroupArn: lb.defaultTargetGroup.arn,
-    applicationUrl: lb.loadBalancer.dnsName.apply(dns => `http://${dns}`),
-    healthCheckUrl: lb.loadBalancer.dnsName.apply(dns => `http://${dns}/health`),
-    certificateArn: undefined,
+    applicationUrl: baseUrl,
+    healthCheckUrl: baseUrl.apply(url => `${url}${defaultApp?.healthCheckPath ?? "/health"}`),
+    certificateArn: features.enableSSL ? securityConfig.sslCertificateArn : undefined,
   };
 }
 
- 
\ No newline at end of file
+/**
+ * Target group and listener rule for an application that is not the ALB default
+ */
+export function createApplicationRoute(config: CommonConfig, network: NetworkOutputs, loadBalancer: LoadBalancerOutputs, app: ApplicationConfig) {
+  const { commonTags } = config;
+  const routing = app.routing ?? {};
+
+  const targetGroup = new aws.lb.TargetGroup(`${app.name}-tg`, {
+    port: APPLICATION_PORT,
+    protocol: "HTTP",
+    targetType: "ip", // Required for Fargate
+    vpcId: network.vpcId,
+    healthCheck: {
+      enabled: true,
+      path: app.healthCheckPath,
+      healthyThreshold: 2,
+      unhealthyThreshold: 3,
+      timeout: 30,
+      interval: 60,
+      matcher: "200",
+    },
+    tags: {
+      ...commonTags,
+      Name: `${app.name}-tg`,
+      Type: "target-group",
+      Application: app.name,
+    },
+  });
+
+  const conditions: aws.types.input.lb.ListenerRuleCondition[] = [];
+  if (routing.pathPatterns?.length) {
+    conditions.push({ pathPattern: { values: routing.pathPatterns } });
+  }
+  if (routing.hostHeaders?.length) {
+    conditions.push({ hostHeader: { values: routing.hostHeaders } });
+  }
+
+  new aws.lb.ListenerRule(`${app.name}-listener-rule`, {
+    listenerArn: loadBalancer.listenerArn,
+    priority: routing.priority,
+    actions: [
+      {
+        type: "forward",
+        targetGroupArn: targetGroup.arn,
+      },
+    ],
+    conditions,
+    tags: {
+      ...commonTags,
+      Name: `${app.name}-listener-rule`,
+      Type: "listener-rule",
+      Application: app.name,
+    },
+  });
+
+  return targetGroup.arn;
+}
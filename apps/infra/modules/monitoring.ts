@@ -1,10 +1,12 @@
 import * as aws from "@pulumi/aws";
 import * as pulumi from "@pulumi/pulumi";
-import { CommonConfig, ContainerOutputs, DatabaseOutputs, LoadBalancerOutputs } from "../types";
+import { CommonConfig, ContainerOutputs, DatabaseOutputs, KmsOutputs, LoadBalancerOutputs } from "../types";
+import { createPhysicalName, createPhysicalPath } from "../utils";
 
 interface MonitoringOptions {
   enableBetterStack?: boolean;
   enableDetailedMonitoring?: boolean;
+  kms?: KmsOutputs;
 }
 
 export function createMonitoring(
@@ -15,11 +17,11 @@ export function createMonitoring(
   options: MonitoringOptions = {}
 ) {
   const { commonTags } = config;
-  const { enableBetterStack = false, enableDetailedMonitoring = true } = options;
+  const { enableBetterStack = false, enableDetailedMonitoring = true, kms } = options;
 
   // CloudWatch Dashboard for Application Monitoring
   const applicationDashboard = new aws.cloudwatch.Dashboard("pathfinder-app-dashboard", {
-    dashboardName: "pathfinder-application",
+    dashboardName: createPhysicalName(config, "application", "pathfinder-application"),
     dashboardBody: JSON.stringify({
       widgets: [
         {
@@ -85,121 +87,126 @@ export function createMonitoring(
     }),
   });
 
-  // Infrastructure Dashboard
-  const infrastructureDashboard = new aws.cloudwatch.Dashboard("pathfinder-infra-dashboard", {
-    dashboardName: "pathfinder-infrastructure",
-    dashboardBody: JSON.stringify({
-      widgets: [
-        {
-          type: "metric",
-          x: 0,
-          y: 0,
-          width: 12,
-          height: 6,
-          properties: {
-            metrics: [
-              ["AWS/ECS", "RunningTaskCount", "ServiceName", container.serviceName, "ClusterName", container.clusterName],
-              [".", "DesiredCount", ".", ".", ".", "."],
-            ],
-            view: "timeSeries",
-            stacked: false,
-            region: config.awsRegion,
-            title: "ECS Task Counts",
-            period: 300,
+  // Detailed monitoring (optional): infrastructure dashboard and custom metrics
+  let infrastructureDashboard: aws.cloudwatch.Dashboard | undefined;
+  let customMetricsFunction: aws.lambda.Function | undefined;
+
+  if (enableDetailedMonitoring) {
+    // Infrastructure Dashboard
+    infrastructureDashboard = new aws.cloudwatch.Dashboard("pathfinder-infra-dashboard", {
+      dashboardName: createPhysicalName(config, "infrastructure", "pathfinder-infrastructure"),
+      dashboardBody: JSON.stringify({
+        widgets: [
+          {
+            type: "metric",
+            x: 0,
+            y: 0,
+            width: 12,
+            height: 6,
+            properties: {
+              metrics: [
+                ["AWS/ECS", "RunningTaskCount", "ServiceName", container.serviceName, "ClusterName", container.clusterName],
+                [".", "DesiredCount", ".", ".", ".", "."],
+              ],
+              view: "timeSeries",
+              stacked: false,
+              region: config.awsRegion,
+              title: "ECS Task Counts",
+              period: 300,
+            },
           },
-        },
-        {
-          type: "metric",
-          x: 0,
-          y: 6,
-          width: 12,
-          height: 6,
-          properties: {
-            metrics: [
-              ["AWS/ApplicationELB", "HealthyHostCount", "TargetGroup", loadBalancer.targetGroupArn],
-              [".", "UnHealthyHostCount", ".", "."],
-            ],
-            view: "timeSeries",
-            stacked: false,
-            region: config.awsRegion,
-            title: "Target Group Health",
-            period: 300,
+          {
+            type: "metric",
+            x: 0,
+            y: 6,
+            width: 12,
+            height: 6,
+            properties: {
+              metrics: [
+                ["AWS/ApplicationELB", "HealthyHostCount", "TargetGroup", loadBalancer.targetGroupArn],
+                [".", "UnHealthyHostCount", ".", "."],
+              ],
+              view: "timeSeries",
+              stacked: false,
+              region: config.awsRegion,
+              title: "Target Group Health",
+              period: 300,
+            },
           },
-        },
-      ],
-    }),
-  });
+        ],
+      }),
+    });
 
-  // Custom Metrics Lambda Function
-  const customMetricsRole = new aws.iam.Role("custom-metrics-role", {
-    name: "pathfinder-custom-metrics-role",
-    assumeRolePolicy: JSON.stringify({
-      Version: "2012-10-17",
-      Statement: [
-        {
-          Action: "sts:AssumeRole",
-          Effect: "Allow",
-          Principal: {
-            Service: "lambda.amazonaws.com",
+    // Custom Metrics Lambda Function
+    const customMetricsRole = new aws.iam.Role("custom-metrics-role", {
+      name: createPhysicalName(config, "custom-metrics-role", "pathfinder-custom-metrics-role"),
+      assumeRolePolicy: JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Action: "sts:AssumeRole",
+            Effect: "Allow",
+            Principal: {
+              Service: "lambda.amazonaws.com",
+            },
           },
-        },
-      ],
-    }),
-    tags: {
-      ...commonTags,
-      Name: "custom-metrics-role",
-      Type: "iam-role",
-    },
-  });
+        ],
+      }),
+      tags: {
+        ...commonTags,
+        Name: "custom-metrics-role",
+        Type: "iam-role",
+      },
+    });
 
-  const customMetricsPolicy = new aws.iam.RolePolicy("custom-metrics-policy", {
-    role: customMetricsRole.id,
-    policy: JSON.stringify({
-      Version: "2012-10-17",
-      Statement: [
-        {
-          Effect: "Allow",
-          Action: [
-            "logs:CreateLogGroup",
-            "logs:CreateLogStream",
-            "logs:PutLogEvents",
-          ],
-          Resource: "arn:aws:logs:*:*:*",
-        },
-        {
-          Effect: "Allow",
-          Action: [
-            "cloudwatch:PutMetricData",
-          ],
-          Resource: "*",
-        },
-        {
-          Effect: "Allow",
-          Action: [
-            "ecs:DescribeServices",
-            "ecs:DescribeTasks",
-            "ecs:ListTasks",
-          ],
-          Resource: "*",
-        },
-        {
-          Effect: "Allow",
-          Action: [
-            "rds:DescribeDBInstances",
-          ],
-          Resource: "*",
-        },
-      ],
-    }),
-  });
+    const customMetricsPolicy = new aws.iam.RolePolicy("custom-metrics-policy", {
+      role: customMetricsRole.id,
+      policy: JSON.stringify({
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Effect: "Allow",
+            Action: [
+              "logs:CreateLogGroup",
+              "logs:CreateLogStream",
+              "logs:PutLogEvents",
+            ],
+            Resource: "arn:aws:logs:*:*:*",
+          },
+          {
+            Effect: "Allow",
+            Action: [
+              "cloudwatch:PutMetricData",
+            ],
+            Resource: "*",
+          },
+          {
+            Effect: "Allow",
+            Action: [
+              "ecs:DescribeServices",
+              "ecs:DescribeTasks",
+              "ecs:ListTasks",
+            ],
+            Resource: "*",
+          },
+          {
+            Effect: "Allow",
+            Action: [
+              "rds:DescribeDBInstances",
+            ],
+            Resource: "*",
+          },
+        ],
+      }),
+    });
 
-  const customMetricsFunction = new aws.lambda.Function("custom-metrics-function", {
-    name: "pathfinder-custom-metrics",
-    runtime: "python3.9",
-    handler: "index.handler",
-    role: customMetricsRole.arn,
-    code: new pulumi.asset.AssetArchive({
-      "index.py": new pulumi.asset.StringAsset(`
+    customMetricsFunction = new aws.lambda.Function("custom-metrics-function", {
+      name: createPhysicalName(config, "custom-metrics", "pathfinder-custom-metrics"),
+      runtime: "python3.9",
+      handler: "index.handler",
+      role: customMetricsRole.arn,
+      code: new pulumi.asset.AssetArchive({
+        "index.py": new pulumi.asset.StringAsset(`
 import json
 import boto3
 import logging
@@ -218,15 +225,15 @@ def handler(event, context):
             cluster='${container.clusterName}',
             services=['${container.serviceName}']
         )
-        
+      
         if services['services']:
             service = services['services'][0]
             running_count = service['runningCount']
             desired_count = service['desiredCount']
-            
+          
             # Custom metric: Service health ratio
             health_ratio = running_count / desired_count if desired_count > 0 else 0
-            
+          
             cloudwatch.put_metric_data(
                 Namespace='Pathfinder/Application',
                 MetricData=[
@@ -243,13 +250,13 @@ def handler(event, context):
                     }
                 ]
             )
-        
+      
         logger.info('Custom metrics published successfully')
         return {
             'statusCode': 200,
             'body': json.dumps('Metrics published successfully')
         }
-        
+      
     except Exception as e:
         logger.error(f'Error publishing metrics: {str(e)}')
         return {
@@ -257,40 +264,41 @@ def handler(event, context):
             'body': json.dumps(f'Error: {str(e)}')
         }
 `),
-    }),
-    timeout: 60,
-    tags: {
-      ...commonTags,
-      Name: "custom-metrics-function",
-      Type: "lambda-function",
-    },
-  });
+      }),
+      timeout: 60,
+      tags: {
+        ...commonTags,
+        Name: "custom-metrics-function",
+        Type: "lambda-function",
+      },
+    });
 
-  // Schedule custom metrics function
-  const customMetricsSchedule = new aws.cloudwatch.EventRule("custom-metrics-schedule", {
-    scheduleExpression: "rate(5 minutes)",
-    tags: {
-      ...commonTags,
-      Name: "custom-metrics-schedule",
-      Type: "event-rule",
-    },
-  });
+    // Schedule custom metrics function
+    const customMetricsSchedule = new aws.cloudwatch.EventRule("custom-metrics-schedule", {
+      scheduleExpression: "rate(5 minutes)",
+      tags: {
+        ...commonTags,
+        Name: "custom-metrics-schedule",
+        Type: "event-rule",
+      },
+    });
 
-  const customMetricsTarget = new aws.cloudwatch.EventTarget("custom-metrics-target", {
-    rule: customMetricsSchedule.name,
-    arn: customMetricsFunction.arn,
-  });
+    const customMetricsTarget = new aws.cloudwatch.EventTarget("custom-metrics-target", {
+      rule: customMetricsSchedule.name,
+      arn: customMetricsFunction.arn,
+    });
 
-  const customMetricsPermission = new aws.lambda.Permission("custom-metrics-permission", {
-    action: "lambda:InvokeFunction",
-    function: customMetricsFunction.name,
-    principal: "events.amazonaws.com",
-    sourceArn: customMetricsSchedule.arn,
-  });
+    const customMetricsPermission = new aws.lambda.Permission("custom-metrics-permission", {
+      action: "lambda:InvokeFunction",
+      function: customMetricsFunction.name,
+      principal: "events.amazonaws.com",
+      sourceArn: customMetricsSchedule.arn,
+    });
+  }
 
   // High Error Rate Alarm
   const highErrorRateAlarm = new aws.cloudwatch.MetricAlarm("high-error-rate-alarm", {
-    name: "pathfinder-high-error-rate",
+    name: createPhysicalName(config, "high-error-rate", "pathfinder-high-error-rate"),
     metricName: "HTTPCode_Target_5XX_Count",
     namespace: "AWS/ApplicationELB",
     statistic: "Sum",
@@ -310,7 +318,7 @@ def handler(event, context):
 
   // Database Connection Alarm
   const databaseConnectionAlarm = new aws.cloudwatch.MetricAlarm("database-connection-alarm", {
-    name: "pathfinder-database-connections",
+    name: createPhysicalName(config, "database-connections", "pathfinder-database-connections"),
     metricName: "DatabaseConnections",
     namespace: "AWS/RDS",
     statistic: "Average",
@@ -334,7 +342,8 @@ def handler(event, context):
 
   if (enableBetterStack) {
     betterStackSecret = new aws.secretsmanager.Secret("betterstack-secret", {
-      name: "pathfinder/betterstack/token",
+      name: createPhysicalPath(config, "betterstack/token", "pathfinder/betterstack/token"),
+      kmsKeyId: kms?.secrets.keyArn,
       tags: {
         ...commonTags,
         Name: "betterstack-secret",
@@ -350,7 +359,7 @@ def handler(event, context):
     applicationDashboardUrl: applicationDashboard.dashboardName.apply(name => 
       `https://${config.awsRegion}.console.aws.amazon.com/cloudwatch/home?region=${config.awsRegion}#dashboards:name=${name}`
     ),
-    infrastructureDashboardUrl: infrastructureDashboard.dashboardName.apply(name =>
+    infrastructureDashboardUrl: infrastructureDashboard?.dashboardName.apply(name =>
       `https://${config.awsRegion}.console.aws.amazon.com/cloudwatch/home?region=${config.awsRegion}#dashboards:name=${name}`
     ),
     applicationLogGroup: container.logGroupName,
@@ -358,7 +367,7 @@ def handler(event, context):
       `https://${config.awsRegion}.console.aws.amazon.com/cloudwatch/home?region=${config.awsRegion}#logsV2:log-groups/log-group/${encodeURIComponent(name)}`
     ),
     metricsNamespace: "Pathfinder/Application",
-    customMetricsFunctionArn: customMetricsFunction.arn,
+    customMetricsFunctionArn: customMetricsFunction?.arn,
     metricsUrl: `https://${config.awsRegion}.console.aws.amazon.com/cloudwatch/home?region=${config.awsRegion}#metricsV2:graph=~();namespace=Pathfinder/Application`,
     highErrorRateAlarmArn: highErrorRateAlarm.arn,
     databaseConnectionAlarmArn: databaseConnectionAlarm.arn,
@@ -1,8 +1,34 @@
 import * as aws from "@pulumi/aws";
-import { CommonConfig } from "../types";
-
-export function createNetworking(config: CommonConfig) {
-  const { commonTags, networkConfig, securityConfig } = config;
+import * as pulumi from "@pulumi/pulumi";
+import {
+  CommonConfig,
+  ExistingVpcConfig,
+  KmsOutputs,
+  NetworkOutputs,
+  SecurityFlow,
+  SecurityGroupName,
+} from "../types";
+import {
+  connectivityReport,
+  creationOrder,
+  SECURITY_GROUPS,
+  securityFlows,
+} from "./security-graph";
+import { ipv6Subnet } from "./subnet-plan";
+
+// The VPC, subnets, NAT and route tables, whether created or looked up;
+// security groups and endpoints are added on top by createNetworking
+type VpcCore = Omit<
+  NetworkOutputs,
+  "securityGroups" | "connectivity" | "vpcEndpoints"
+>;
+
+// ==========================================
+// PATHFINDER-MANAGED VPC
+// ==========================================
+
+function createVpc(config: CommonConfig, kms?: KmsOutputs): VpcCore {
+  const { commonTags, networkConfig } = config;
 
   // ==========================================
   // VPC AND CORE NETWORKING
@@ -13,6 +39,7 @@ export function createNetworking(config: CommonConfig) {
     cidrBlock: networkConfig.vpcCidr,
     enableDnsHostnames: true, // Required for RDS and ALB
     enableDnsSupport: true, // Required for RDS and ALB
+    ...(networkConfig.ipv6 && { assignGeneratedIpv6CidrBlock: true }),
     tags: {
       ...commonTags,
       Name: "pathfinder-vpc",
@@ -30,24 +57,58 @@ export function createNetworking(config: CommonConfig) {
     },
   });
 
+  // Outbound-only IPv6 internet access for the private tier, without NAT
+  // charges
+  const egressOnlyInternetGateway = networkConfig.ipv6
+    ? new aws.ec2.EgressOnlyInternetGateway("pathfinder-eigw", {
+        vpcId: vpc.id,
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-eigw",
+          Type: "egress-only-internet-gateway",
+        },
+      })
+    : undefined;
+
   // Get availability zones dynamically
   const availabilityZones = aws.getAvailabilityZonesOutput({
     state: "available",
   });
 
+  const azName = (az: number) =>
+    availabilityZones.apply((azs) => {
+      if (az >= azs.names.length) {
+        throw new Error(
+          `Subnet AZ index ${az} is out of range: ${config.awsRegion} has ${azs.names.length} available AZs`
+        );
+      }
+      return azs.names[az];
+    });
+
   // ==========================================
   // SUBNETS
   // ==========================================
 
+  // With IPv6, each subnet gets a /64 of the VPC's /56: public subnets from
+  // index 0, private from 64 and database from 128
+  const ipv6SubnetArgs = (offset: number, index: number) =>
+    networkConfig.ipv6
+      ? {
+          ipv6CidrBlock: vpc.ipv6CidrBlock.apply((block) =>
+            ipv6Subnet(block, offset + index)
+          ),
+          assignIpv6AddressOnCreation: true,
+        }
+      : {};
+
   // Public subnets (for ALB, NAT Gateway, and Tailscale)
   const publicSubnets = networkConfig.subnets.public.map(
     (subnet, index) =>
       new aws.ec2.Subnet(`pathfinder-public-subnet-${index + 1}`, {
         vpcId: vpc.id,
         cidrBlock: subnet.cidr,
-        availabilityZone: availabilityZones.apply(
-          (azs) => azs.names[subnet.az]
-        ),
+        ...ipv6SubnetArgs(0, index),
+        availabilityZone: azName(subnet.az),
         mapPublicIpOnLaunch: true,
         tags: {
           ...commonTags,
@@ -64,9 +125,8 @@ export function createNetworking(config: CommonConfig) {
       new aws.ec2.Subnet(`pathfinder-private-subnet-${index + 1}`, {
         vpcId: vpc.id,
         cidrBlock: subnet.cidr,
-        availabilityZone: availabilityZones.apply(
-          (azs) => azs.names[subnet.az]
-        ),
+        ...ipv6SubnetArgs(64, index),
+        availabilityZone: azName(subnet.az),
         mapPublicIpOnLaunch: false, // Private subnets don't auto-assign public IPs
         tags: {
           ...commonTags,
@@ -77,32 +137,195 @@ export function createNetworking(config: CommonConfig) {
       })
   );
 
+  // Isolated database subnets: no route to or from the internet
+  const databaseSubnets = (networkConfig.subnets.database ?? []).map(
+    (subnet, index) =>
+      new aws.ec2.Subnet(`pathfinder-database-subnet-${index + 1}`, {
+        vpcId: vpc.id,
+        cidrBlock: subnet.cidr,
+        ...ipv6SubnetArgs(128, index),
+        availabilityZone: azName(subnet.az),
+        mapPublicIpOnLaunch: false,
+        tags: {
+          ...commonTags,
+          Name: `pathfinder-database-subnet-${index + 1}`,
+          Type: "isolated",
+          Tier: "database",
+        },
+      })
+  );
+
   // Extract subnet IDs for use in other resources
   const publicSubnetIds = publicSubnets.map((subnet) => subnet.id);
   const privateSubnetIds = privateSubnets.map((subnet) => subnet.id);
 
+  // Layouts pinned before the database tier existed keep the database in
+  // the private subnets
+  const databaseTier = networkConfig.subnets.database ?? [];
+  const databaseSubnetIds =
+    databaseSubnets.length > 0
+      ? databaseSubnets.map((subnet) => subnet.id)
+      : privateSubnetIds;
+  const databaseSubnetCidrs = (
+    databaseTier.length > 0 ? databaseTier : networkConfig.subnets.private
+  ).map((subnet) => subnet.cidr);
+
   // ==========================================
-  // NAT GATEWAY FOR PRIVATE SUBNET INTERNET ACCESS
+  // NAT FOR PRIVATE SUBNET INTERNET ACCESS
   // ==========================================
 
-  // Elastic IP for NAT Gateway
-  const natEip = new aws.ec2.Eip("pathfinder-nat-eip", {
-    domain: "vpc",
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-nat-eip",
-    },
-  });
+  // AZs with private subnets, in the order they first appear
+  const privateAzs = [
+    ...new Set(networkConfig.subnets.private.map((subnet) => subnet.az)),
+  ];
 
-  // NAT Gateway in first public subnet
-  const natGateway = new aws.ec2.NatGateway("pathfinder-nat-gateway", {
-    allocationId: natEip.id,
-    subnetId: publicSubnets[0].id,
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-nat-gateway",
-    },
-  });
+  // The first zone keeps the original logical names, so switching between
+  // "single" and "perAz" only adds or removes the other zones' resources
+  const zoneName = (base: string, index: number) =>
+    index === 0 ? base : `${base}-${index + 1}`;
+
+  const createNatGateway = (index: number, subnet: aws.ec2.Subnet) => {
+    const natEip = new aws.ec2.Eip(zoneName("pathfinder-nat-eip", index), {
+      domain: "vpc",
+      tags: {
+        ...commonTags,
+        Name: zoneName("pathfinder-nat-eip", index),
+      },
+    });
+
+    return new aws.ec2.NatGateway(zoneName("pathfinder-nat-gateway", index), {
+      allocationId: natEip.id,
+      subnetId: subnet.id,
+      tags: {
+        ...commonTags,
+        Name: zoneName("pathfinder-nat-gateway", index),
+      },
+    });
+  };
+
+  // NAT instance: a small EC2 instance masquerading private traffic, at a
+  // fraction of a NAT gateway's hourly and per-GB price. It is a single
+  // point of failure, so it is meant for dev stacks only.
+  const createNatInstance = () => {
+    const natInstanceSecurityGroup = new aws.ec2.SecurityGroup(
+      "pathfinder-nat-instance-sg",
+      {
+        vpcId: vpc.id,
+        description: "Security group for the NAT instance",
+        ingress: [
+          {
+            protocol: "-1",
+            fromPort: 0,
+            toPort: 0,
+            cidrBlocks: [networkConfig.vpcCidr],
+            description: "Traffic from the VPC to forward",
+          },
+        ],
+        egress: [
+          {
+            protocol: "-1",
+            fromPort: 0,
+            toPort: 0,
+            cidrBlocks: ["0.0.0.0/0"],
+            description: "All outbound traffic",
+          },
+        ],
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-nat-instance-sg",
+          Type: "security-group",
+          Tier: "public",
+        },
+      }
+    );
+
+    // Graviton instance families (t4g, c7g, ...) need an arm64 image
+    const architecture = /^[a-z]+\d+g[a-z]*\./.test(
+      networkConfig.natInstanceType
+    )
+      ? "arm64"
+      : "x86_64";
+
+    const userData = `#!/bin/bash
+set -e
+
+# Forward and masquerade traffic from the private subnets
+dnf install -y iptables-services
+echo 'net.ipv4.ip_forward = 1' > /etc/sysctl.d/90-nat.conf
+sysctl -p /etc/sysctl.d/90-nat.conf
+
+IFACE=$(ip route show default | awk '{print $5}' | head -n 1)
+iptables -t nat -A POSTROUTING -o "$IFACE" -s ${networkConfig.vpcCidr} -j MASQUERADE
+iptables -F FORWARD
+service iptables save
+systemctl enable --now iptables
+`;
+
+    const natInstance = new aws.ec2.Instance("pathfinder-nat-instance", {
+      instanceType: networkConfig.natInstanceType,
+      ami: aws.ec2
+        .getAmi({
+          mostRecent: true,
+          owners: ["amazon"],
+          filters: [
+            {
+              name: "name",
+              values: [`al2023-ami-2023.*-${architecture}`],
+            },
+          ],
+        })
+        .then((ami) => ami.id),
+      subnetId: publicSubnets[0].id,
+      vpcSecurityGroupIds: [natInstanceSecurityGroup.id],
+      sourceDestCheck: false, // Required for forwarding
+      rootBlockDevice: {
+        encrypted: true,
+        kmsKeyId: kms?.data.keyArn, // Changing the key replaces the instance
+      },
+      userData: Buffer.from(userData).toString("base64"),
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-nat-instance",
+        Type: "ec2-instance",
+        Purpose: "nat",
+      },
+    });
+
+    // Stable egress address for allow-lists, like a NAT gateway's
+    new aws.ec2.Eip("pathfinder-nat-instance-eip", {
+      domain: "vpc",
+      instance: natInstance.id,
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-nat-instance-eip",
+      },
+    });
+
+    return natInstance;
+  };
+
+  // natMode "single": one NAT gateway in the first public subnet
+  // natMode "perAz": a NAT gateway in each AZ's public subnet, so losing an
+  //   AZ only breaks egress for that AZ
+  // natMode "instance": one NAT instance in the first public subnet
+  // natMode "none": no NAT; private subnets reach AWS through VPC endpoints
+  const natGateways =
+    networkConfig.natMode === "perAz"
+      ? privateAzs.map((az, index) =>
+          createNatGateway(
+            index,
+            publicSubnets[
+              networkConfig.subnets.public.findIndex(
+                (subnet) => subnet.az === az
+              )
+            ]
+          )
+        )
+      : networkConfig.natMode === "single"
+        ? [createNatGateway(0, publicSubnets[0])]
+        : [];
+  const natInstance =
+    networkConfig.natMode === "instance" ? createNatInstance() : undefined;
 
   // ==========================================
   // ROUTE TABLES
@@ -126,6 +349,14 @@ export function createNetworking(config: CommonConfig) {
     gatewayId: internetGateway.id,
   });
 
+  if (networkConfig.ipv6) {
+    new aws.ec2.Route("pathfinder-public-route-ipv6", {
+      routeTableId: publicRouteTable.id,
+      destinationIpv6CidrBlock: "::/0",
+      gatewayId: internetGateway.id,
+    });
+  }
+
   // Associate public subnets with public route table
   publicSubnets.map(
     (subnet, index) =>
@@ -135,366 +366,397 @@ export function createNetworking(config: CommonConfig) {
       })
   );
 
-  // Private route table
-  const privateRouteTable = new aws.ec2.RouteTable("pathfinder-private-rt", {
-    vpcId: vpc.id,
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-private-rt",
-      Type: "route-table",
-      Tier: "private",
-    },
-  });
+  // Private route tables: one per AZ with natMode "perAz", otherwise one
+  // shared by all private subnets
+  const privateRouteZones =
+    networkConfig.natMode === "perAz" ? privateAzs : privateAzs.slice(0, 1);
 
-  // Route for private internet access via NAT Gateway
-  const privateRoute = new aws.ec2.Route("pathfinder-private-route", {
-    routeTableId: privateRouteTable.id,
-    destinationCidrBlock: "0.0.0.0/0",
-    natGatewayId: natGateway.id,
+  const privateRouteTables = privateRouteZones.map((az, index) => {
+    const routeTable = new aws.ec2.RouteTable(
+      zoneName("pathfinder-private-rt", index),
+      {
+        vpcId: vpc.id,
+        tags: {
+          ...commonTags,
+          Name: zoneName("pathfinder-private-rt", index),
+          Type: "route-table",
+          Tier: "private",
+        },
+      }
+    );
+
+    // Route for private internet access via the zone's NAT
+    if (networkConfig.natMode !== "none") {
+      new aws.ec2.Route(zoneName("pathfinder-private-route", index), {
+        routeTableId: routeTable.id,
+        destinationCidrBlock: "0.0.0.0/0",
+        ...(natInstance
+          ? { networkInterfaceId: natInstance.primaryNetworkInterfaceId }
+          : { natGatewayId: natGateways[index].id }),
+      });
+    }
+
+    // IPv6 egress bypasses NAT; natMode "none" keeps the tier offline
+    if (egressOnlyInternetGateway && networkConfig.natMode !== "none") {
+      new aws.ec2.Route(zoneName("pathfinder-private-route-ipv6", index), {
+        routeTableId: routeTable.id,
+        destinationIpv6CidrBlock: "::/0",
+        egressOnlyGatewayId: egressOnlyInternetGateway.id,
+      });
+    }
+
+    return routeTable;
   });
 
-  // Associate private subnets with private route table
-  privateSubnets.map(
+  // Associate private subnets with their zone's route table
+  networkConfig.subnets.private.map(
     (subnet, index) =>
       new aws.ec2.RouteTableAssociation(`pathfinder-private-rta-${index + 1}`, {
-        subnetId: subnet.id,
-        routeTableId: privateRouteTable.id,
+        subnetId: privateSubnets[index].id,
+        routeTableId:
+          privateRouteTables[Math.max(privateRouteZones.indexOf(subnet.az), 0)]
+            .id,
       })
   );
 
-  // ==========================================
-  // SECURITY GROUPS
-  // ==========================================
+  // Database route table: only the implicit local route
+  const databaseRouteTable =
+    databaseSubnets.length > 0
+      ? new aws.ec2.RouteTable("pathfinder-database-rt", {
+          vpcId: vpc.id,
+          tags: {
+            ...commonTags,
+            Name: "pathfinder-database-rt",
+            Type: "route-table",
+            Tier: "database",
+          },
+        })
+      : undefined;
+
+  if (databaseRouteTable) {
+    databaseSubnets.forEach(
+      (subnet, index) =>
+        new aws.ec2.RouteTableAssociation(
+          `pathfinder-database-rta-${index + 1}`,
+          {
+            subnetId: subnet.id,
+            routeTableId: databaseRouteTable.id,
+          }
+        )
+    );
+  }
+
+  // Interface endpoints and attachments accept one subnet per AZ; use each
+  // AZ's first private subnet
+  const zonalPrivateSubnetIds = pulumi.all(
+    privateAzs.map(
+      (az) =>
+        privateSubnets[
+          networkConfig.subnets.private.findIndex((subnet) => subnet.az === az)
+        ].id
+    )
+  );
 
-  // ALB Security Group
-  const albSecurityGroup = new aws.ec2.SecurityGroup("pathfinder-alb-sg", {
+  return {
     vpcId: vpc.id,
-    description: "Security group for Application Load Balancer",
-    ingress: [
-      {
-        protocol: "tcp",
-        fromPort: 80,
-        toPort: 80,
-        cidrBlocks: ["0.0.0.0/0"],
-        description: "HTTP access from internet",
-      },
-      {
-        protocol: "tcp",
-        fromPort: 443,
-        toPort: 443,
-        cidrBlocks: ["0.0.0.0/0"],
-        description: "HTTPS access from internet",
-      },
-    ],
-    egress: [
-      {
-        protocol: "-1",
-        fromPort: 0,
-        toPort: 0,
-        cidrBlocks: ["0.0.0.0/0"],
-        description: "All outbound traffic",
-      },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-alb-sg",
-      Type: "security-group",
-      Tier: "public",
+    vpcCidr: vpc.cidrBlock,
+    vpcIpv6Cidr: networkConfig.ipv6 ? vpc.ipv6CidrBlock : undefined,
+    internetGatewayId: internetGateway.id,
+    egressOnlyInternetGatewayId: egressOnlyInternetGateway?.id,
+    natGatewayIds: natGateways.map((natGateway) => natGateway.id),
+    natInstanceId: natInstance?.id,
+    natNetworkInterfaceIds: natInstance
+      ? [natInstance.primaryNetworkInterfaceId]
+      : natGateways.map((natGateway) => natGateway.networkInterfaceId),
+    publicSubnetIds,
+    privateSubnetIds,
+    databaseSubnetIds,
+    databaseSubnetCidrs: pulumi.output(databaseSubnetCidrs),
+    availabilityZones: availabilityZones.apply((azs) => azs.names),
+    routeTableIds: {
+      public: publicRouteTable.id,
+      private: privateRouteTables.map((routeTable) => routeTable.id),
+      database: databaseRouteTable?.id,
     },
-  });
+    zonalPrivateSubnetIds,
+  };
+}
 
-  // ECS Security Group
-  const ecsSecurityGroup = new aws.ec2.SecurityGroup("pathfinder-ecs-sg", {
-    vpcId: vpc.id,
-    description: "Security group for ECS services",
-    ingress: [
-      {
-        protocol: "tcp",
-        fromPort: 3000,
-        toPort: 3000,
-        securityGroups: [albSecurityGroup.id],
-        description: "HTTP access from ALB only",
-      },
-    ],
-    egress: [
-      {
-        protocol: "-1",
-        fromPort: 0,
-        toPort: 0,
-        cidrBlocks: ["0.0.0.0/0"],
-        description: "All outbound traffic",
-      },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-ecs-sg",
-      Type: "security-group",
-      Tier: "private",
-    },
+// ==========================================
+// EXISTING (SHARED) VPC
+// ==========================================
+
+/**
+ * Look up a VPC managed outside this stack. Pathfinder only adds security
+ * groups and endpoints to it; NAT and routing stay with the VPC's owner.
+ */
+function lookupExistingVpc(
+  config: CommonConfig,
+  existing: ExistingVpcConfig
+): VpcCore {
+  const { networkConfig } = config;
+  const { vpcId, routeTableIds } = existing;
+
+  const vpc = aws.ec2.getVpcOutput({ id: vpcId });
+
+  // Flow log queries and the NAT-free checks use the configured CIDR
+  const vpcCidr = vpc.cidrBlock.apply((cidr) => {
+    if (cidr !== networkConfig.vpcCidr) {
+      throw new Error(
+        `networking.vpcCidr is ${networkConfig.vpcCidr} but ${vpcId} uses ${cidr}`
+      );
+    }
+    return cidr;
   });
 
-  // Database Security Group
-  const databaseSecurityGroup = new aws.ec2.SecurityGroup("pathfinder-db-sg", {
+  // Looking subnets and route tables up with the VPC ID fails the preview
+  // when an ID belongs to another VPC
+  const lookupSubnets = (ids: string[]) =>
+    ids.map((id) => aws.ec2.getSubnetOutput({ id, vpcId }));
+  const lookupRouteTable = (routeTableId: string) =>
+    aws.ec2.getRouteTableOutput({ routeTableId, vpcId });
+
+  // The public route table's internet gateway, if any: shared VPCs that send
+  // all egress through a Transit Gateway or a central NAT have none
+  const publicRouteTable = lookupRouteTable(routeTableIds.public);
+  const internetGatewayId = publicRouteTable.routes.apply(
+    (routes) =>
+      routes.find((route) => route.gatewayId.startsWith("igw-"))?.gatewayId
+  );
+
+  const publicSubnets = lookupSubnets(existing.publicSubnetIds);
+  const privateSubnets = lookupSubnets(existing.privateSubnetIds);
+  // Without dedicated database subnets the database uses the private ones
+  const databaseSubnets = existing.databaseSubnetIds
+    ? lookupSubnets(existing.databaseSubnetIds)
+    : privateSubnets;
+
+  const privateSubnetAzs = pulumi.all(
+    privateSubnets.map((subnet) =>
+      pulumi.all([subnet.id, subnet.availabilityZone])
+    )
+  );
+
+  return {
     vpcId: vpc.id,
-    description: "Security group for RDS database",
-    ingress: [
-      {
-        protocol: "tcp",
-        fromPort: 5432,
-        toPort: 5432,
-        securityGroups: [ecsSecurityGroup.id],
-        description: "PostgreSQL access from ECS only",
-      },
-    ],
-    egress: [
-      {
-        protocol: "-1",
-        fromPort: 0,
-        toPort: 0,
-        cidrBlocks: ["0.0.0.0/0"],
-        description: "Outbound traffic for updates and maintenance",
-      },
-    ],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-db-sg",
-      Type: "security-group",
-      Tier: "private",
+    vpcCidr,
+    // The VPC's owner provides IPv6 ranges and routes
+    vpcIpv6Cidr: networkConfig.ipv6
+      ? vpc.ipv6CidrBlock.apply((block) => {
+          if (!block) {
+            throw new Error(
+              `networking.ipv6 needs an IPv6 CIDR block on ${vpcId}`
+            );
+          }
+          return block;
+        })
+      : undefined,
+    internetGatewayId,
+    natGatewayIds: [],
+    natNetworkInterfaceIds: [],
+    publicSubnetIds: publicSubnets.map((subnet) => subnet.id),
+    privateSubnetIds: privateSubnets.map((subnet) => subnet.id),
+    databaseSubnetIds: databaseSubnets.map((subnet) => subnet.id),
+    databaseSubnetCidrs: pulumi.all(
+      databaseSubnets.map((subnet) => subnet.cidrBlock)
+    ),
+    availabilityZones: privateSubnetAzs.apply((subnets) => [
+      ...new Set(subnets.map(([, az]) => az)),
+    ]),
+    routeTableIds: {
+      public: publicRouteTable.routeTableId,
+      private: routeTableIds.private.map(
+        (id) => lookupRouteTable(id).routeTableId
+      ),
+      database: routeTableIds.database
+        ? lookupRouteTable(routeTableIds.database).routeTableId
+        : undefined,
     },
-  });
+    zonalPrivateSubnetIds: privateSubnetAzs.apply((subnets) =>
+      subnets
+        .filter(
+          ([, az], index) =>
+            subnets.findIndex(([, other]) => other === az) === index
+        )
+        .map(([id]) => id)
+    ),
+  };
+}
 
-  // CodeBuild Security Group
-  const codeBuildSecurityGroup = new aws.ec2.SecurityGroup(
-    "pathfinder-codebuild-sg",
-    {
-      vpcId: vpc.id,
-      description: "Security group for CodeBuild projects",
-      egress: [
-        {
-          protocol: "-1",
-          fromPort: 0,
-          toPort: 0,
-          cidrBlocks: ["0.0.0.0/0"],
-          description: "Full outbound access for builds",
-        },
-      ],
-      tags: {
-        ...commonTags,
-        Name: "pathfinder-codebuild-sg",
-        Type: "security-group",
-        Tier: "private",
-      },
-    }
-  );
+export function createNetworking(config: CommonConfig, kms?: KmsOutputs) {
+  const { commonTags, networkConfig } = config;
+  const core = networkConfig.existingVpc
+    ? lookupExistingVpc(config, networkConfig.existingVpc)
+    : createVpc(config, kms);
 
-  // Allow CodeBuild to access database
-  const buildDatabaseAccess = new aws.ec2.SecurityGroupRule(
-    "build-database-access",
-    {
-      type: "ingress",
-      fromPort: 5432,
-      toPort: 5432,
-      protocol: "tcp",
-      sourceSecurityGroupId: codeBuildSecurityGroup.id,
-      securityGroupId: databaseSecurityGroup.id,
-      description: "Allow CodeBuild to access database for builds",
-    }
-  );
+  // ==========================================
+  // SECURITY GROUPS
+  // ==========================================
 
-  // Tailscale Security Group
-  const tailscaleSecurityGroup = new aws.ec2.SecurityGroup(
-    "pathfinder-tailscale-sg",
-    {
-      vpcId: vpc.id,
-      description: "Security group for Tailscale subnet router",
-      ingress: [
-        {
-          protocol: "tcp",
-          fromPort: 22,
-          toPort: 22,
-          cidrBlocks: securityConfig.allowedCidrBlocks,
-          description: "SSH access from allowed IPs",
-        },
-        {
-          protocol: "udp",
-          fromPort: 41641,
-          toPort: 41641,
-          cidrBlocks: ["0.0.0.0/0"],
-          description: "Tailscale UDP traffic",
-        },
-      ],
+  // Ingress comes only from the declared flows (security-graph.ts), created
+  // in dependency order so inline rules can reference their source groups
+  const flows = securityFlows(config);
+  // Optional groups without flows are left out
+  const securityGroups = {} as Record<SecurityGroupName, aws.ec2.SecurityGroup>;
+
+  for (const name of creationOrder(flows)) {
+    const group = SECURITY_GROUPS[name];
+    securityGroups[name] = new aws.ec2.SecurityGroup(group.name, {
+      vpcId: core.vpcId,
+      description: group.description,
+      ingress: inlineIngress(
+        flows.filter((flow) => flow.to === name && !flow.rule),
+        securityGroups
+      ),
       egress: [
         {
           protocol: "-1",
           fromPort: 0,
           toPort: 0,
           cidrBlocks: ["0.0.0.0/0"],
-          description: "All outbound traffic",
+          ...(networkConfig.ipv6 && { ipv6CidrBlocks: ["::/0"] }),
+          description: group.egressDescription,
         },
       ],
       tags: {
         ...commonTags,
-        Name: "pathfinder-tailscale-sg",
+        Name: group.name,
         Type: "security-group",
-        Tier: "public",
+        ...(group.tier && { Tier: group.tier }),
       },
-    }
-  );
+    });
+  }
 
-  // Allow Tailscale to access database
-  const tailscaleDatabaseAccess = new aws.ec2.SecurityGroupRule(
-    "tailscale-database-access",
-    {
+  for (const flow of flows) {
+    if (!flow.rule) {
+      continue;
+    }
+    new aws.ec2.SecurityGroupRule(flow.rule, {
       type: "ingress",
-      fromPort: 5432,
-      toPort: 5432,
       protocol: "tcp",
-      sourceSecurityGroupId: tailscaleSecurityGroup.id,
-      securityGroupId: databaseSecurityGroup.id,
-      description: "Allow Tailscale router to access database for development",
-    }
-  );
+      fromPort: flow.port,
+      toPort: flow.port,
+      securityGroupId: securityGroups[flow.to].id,
+      ...("group" in flow.from
+        ? { sourceSecurityGroupId: securityGroups[flow.from.group].id }
+        : {
+            cidrBlocks: flow.from.cidrs,
+            ...(flow.from.ipv6Cidrs?.length && {
+              ipv6CidrBlocks: flow.from.ipv6Cidrs,
+            }),
+          }),
+      description: flow.description,
+    });
+  }
 
   // ==========================================
   // VPC ENDPOINTS
   // ==========================================
 
-  // S3 VPC Endpoint
-  const s3VpcEndpoint = new aws.ec2.VpcEndpoint("pathfinder-s3-endpoint", {
-    vpcId: vpc.id,
-    serviceName: `com.amazonaws.${config.awsRegion}.s3`,
-    vpcEndpointType: "Gateway",
-    routeTableIds: [privateRouteTable.id],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-s3-endpoint",
-      Type: "vpc-endpoint",
-    },
-  });
+  // An existing VPC's owner may already provide them
+  const endpoints = networkConfig.existingVpc?.endpoints ?? {
+    s3: true,
+    interface: true,
+  };
 
-  // Shared security group for VPC endpoints (allows both ECS and CodeBuild access)
-  const vpcEndpointSecurityGroup = new aws.ec2.SecurityGroup(
-    "pathfinder-vpc-endpoint-sg",
-    {
-      vpcId: vpc.id,
-      description:
-        "Security group for VPC endpoints (ECR, CodeBuild, CloudWatch)",
-      ingress: [
-        {
-          protocol: "tcp",
-          fromPort: 443,
-          toPort: 443,
-          securityGroups: [ecsSecurityGroup.id, codeBuildSecurityGroup.id],
-          description: "HTTPS access from ECS and CodeBuild",
-        },
-      ],
-      egress: [
-        {
-          protocol: "-1",
-          fromPort: 0,
-          toPort: 0,
-          cidrBlocks: ["0.0.0.0/0"],
-          description: "All outbound traffic",
+  // S3 VPC Endpoint
+  const s3VpcEndpoint = endpoints.s3
+    ? new aws.ec2.VpcEndpoint("pathfinder-s3-endpoint", {
+        vpcId: core.vpcId,
+        serviceName: `com.amazonaws.${config.awsRegion}.s3`,
+        vpcEndpointType: "Gateway",
+        routeTableIds: core.routeTableIds.private,
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-s3-endpoint",
+          Type: "vpc-endpoint",
         },
-      ],
-      tags: {
-        ...commonTags,
-        Name: "pathfinder-vpc-endpoint-sg",
-        Type: "security-group",
-      },
-    }
-  );
-
-  // ECR API VPC Endpoint (for ECS in private subnets)
-  const ecrApiVpcEndpoint = new aws.ec2.VpcEndpoint(
-    "pathfinder-ecr-api-endpoint",
-    {
-      vpcId: vpc.id,
-      serviceName: `com.amazonaws.${config.awsRegion}.ecr.api`,
-      vpcEndpointType: "Interface",
-      subnetIds: privateSubnetIds,
-      securityGroupIds: [vpcEndpointSecurityGroup.id],
-      tags: {
-        ...commonTags,
-        Name: "pathfinder-ecr-api-endpoint",
-        Type: "vpc-endpoint",
-      },
-    }
-  );
-
-  // ECR DKR VPC Endpoint (for ECS in private subnets)
-  const ecrDkrVpcEndpoint = new aws.ec2.VpcEndpoint(
-    "pathfinder-ecr-dkr-endpoint",
-    {
-      vpcId: vpc.id,
-      serviceName: `com.amazonaws.${config.awsRegion}.ecr.dkr`,
-      vpcEndpointType: "Interface",
-      subnetIds: privateSubnetIds,
-      securityGroupIds: [vpcEndpointSecurityGroup.id],
-      tags: {
-        ...commonTags,
-        Name: "pathfinder-ecr-dkr-endpoint",
-        Type: "vpc-endpoint",
-      },
-    }
-  );
-
-  // CodeBuild VPC Endpoint (essential for CodeBuild to work in VPC)
-  const codebuildVpcEndpoint = new aws.ec2.VpcEndpoint(
-    "pathfinder-codebuild-endpoint",
-    {
-      vpcId: vpc.id,
-      serviceName: `com.amazonaws.${config.awsRegion}.codebuild`,
-      vpcEndpointType: "Interface",
-      subnetIds: publicSubnetIds,
-      securityGroupIds: [vpcEndpointSecurityGroup.id],
-      tags: {
-        ...commonTags,
-        Name: "pathfinder-codebuild-endpoint",
-        Type: "vpc-endpoint",
-      },
-    }
+      })
+    : undefined;
+
+  // Interface endpoints from the stack's catalog selection, with private DNS
+  // so the regular service hostnames resolve to them inside the VPC
+  const interfaceEndpoints = Object.fromEntries(
+    (endpoints.interface ? networkConfig.interfaceEndpoints : []).map(
+      (service) => {
+        const name = `pathfinder-${service.replace(/\./g, "-")}-endpoint`;
+        const endpoint = new aws.ec2.VpcEndpoint(name, {
+          vpcId: core.vpcId,
+          serviceName: `com.amazonaws.${config.awsRegion}.${service}`,
+          vpcEndpointType: "Interface",
+          privateDnsEnabled: true,
+          subnetIds: core.zonalPrivateSubnetIds,
+          securityGroupIds: [securityGroups.vpcEndpoint.id],
+          tags: {
+            ...commonTags,
+            Name: name,
+            Type: "vpc-endpoint",
+          },
+        });
+        return [service, endpoint.id];
+      }
+    )
   );
 
-  // CloudWatch Logs VPC Endpoint (for CodeBuild logging)
-  const logsVpcEndpoint = new aws.ec2.VpcEndpoint("pathfinder-logs-endpoint", {
-    vpcId: vpc.id,
-    serviceName: `com.amazonaws.${config.awsRegion}.logs`,
-    vpcEndpointType: "Interface",
-    subnetIds: publicSubnetIds,
-    securityGroupIds: [vpcEndpointSecurityGroup.id],
-    tags: {
-      ...commonTags,
-      Name: "pathfinder-logs-endpoint",
-      Type: "vpc-endpoint",
-    },
-  });
-
   return {
-    vpcId: vpc.id,
-    vpcCidr: vpc.cidrBlock,
-    internetGatewayId: internetGateway.id,
-    natGatewayId: natGateway.id,
-    publicSubnetIds,
-    privateSubnetIds,
-    availabilityZones: availabilityZones.apply((azs) => azs.names),
+    ...core,
     securityGroups: {
-      alb: albSecurityGroup.id,
-      ecs: ecsSecurityGroup.id,
-      database: databaseSecurityGroup.id,
-      codeBuild: codeBuildSecurityGroup.id,
-      tailscale: tailscaleSecurityGroup.id,
-    },
-    routeTableIds: {
-      public: publicRouteTable.id,
-      private: privateRouteTable.id,
+      alb: securityGroups.alb.id,
+      ecs: securityGroups.ecs.id,
+      database: securityGroups.database.id,
+      codeBuild: securityGroups.codeBuild.id,
+      tailscale: securityGroups.tailscale.id,
+      vpcEndpoint: securityGroups.vpcEndpoint.id,
+      databaseProxy: securityGroups.databaseProxy?.id,
+      databaseFunctions: securityGroups.databaseFunctions.id,
     },
+    connectivity: connectivityReport(flows),
     vpcEndpoints: {
-      s3: s3VpcEndpoint.id,
-      ecrApi: ecrApiVpcEndpoint.id,
-      ecrDkr: ecrDkrVpcEndpoint.id,
-      codebuild: codebuildVpcEndpoint.id,
-      logs: logsVpcEndpoint.id,
+      ...(s3VpcEndpoint ? { s3: s3VpcEndpoint.id } : {}),
+      ...interfaceEndpoints,
     },
   };
 }
+
+/**
+ * Inline ingress for a group's flows. Flows from other groups on the same
+ * port and with the same description share one rule, as in the groups'
+ * original definitions.
+ */
+function inlineIngress(
+  flows: SecurityFlow[],
+  securityGroups: Record<SecurityGroupName, aws.ec2.SecurityGroup>
+): aws.types.input.ec2.SecurityGroupIngress[] {
+  const rules: aws.types.input.ec2.SecurityGroupIngress[] = [];
+  const sharedSources = new Map<string, pulumi.Input<string>[]>();
+
+  for (const flow of flows) {
+    const rule = {
+      protocol: "tcp",
+      fromPort: flow.port,
+      toPort: flow.port,
+      description: flow.description,
+    };
+    if (!("group" in flow.from)) {
+      rules.push({
+        ...rule,
+        cidrBlocks: flow.from.cidrs,
+        ...(flow.from.ipv6Cidrs?.length && {
+          ipv6CidrBlocks: flow.from.ipv6Cidrs,
+        }),
+      });
+      continue;
+    }
+
+    const source = securityGroups[flow.from.group].id;
+    const key = `${flow.port}:${flow.description}`;
+    const sources = sharedSources.get(key);
+    if (sources) {
+      sources.push(source);
+    } else {
+      sharedSources.set(key, [source]);
+      rules.push({ ...rule, securityGroups: sharedSources.get(key) });
+    }
+  }
+  return rules;
+}
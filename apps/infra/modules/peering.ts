@@ -0,0 +1,117 @@
+import * as aws from "@pulumi/aws";
+import {
+  CommonConfig,
+  NetworkOutputs,
+  PeeringConfig,
+  PeeringOutputs,
+} from "../types";
+
+/**
+ * Connect the VPC to internal networks through an existing Transit Gateway
+ * and/or a VPC peering connection. Each declared peer CIDR is routed from
+ * the private and database route tables; the ports it may reach on the ECS
+ * tasks or the database are security flows (security-graph.ts).
+ */
+export function createPeering(
+  config: CommonConfig,
+  network: NetworkOutputs,
+  peering: PeeringConfig
+): PeeringOutputs {
+  const { commonTags } = config;
+
+  // ==========================================
+  // TRANSIT GATEWAY ATTACHMENT
+  // ==========================================
+
+  // The Transit Gateway, its route tables and propagation belong to the
+  // network team; this only attaches the VPC in each AZ
+  const attachment = peering.transitGatewayId
+    ? new aws.ec2transitgateway.VpcAttachment("pathfinder-tgw-attachment", {
+        transitGatewayId: peering.transitGatewayId,
+        vpcId: network.vpcId,
+        subnetIds: network.zonalPrivateSubnetIds,
+        dnsSupport: "enable",
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-tgw-attachment",
+          Type: "transit-gateway-attachment",
+        },
+      })
+    : undefined;
+
+  // ==========================================
+  // VPC PEERING
+  // ==========================================
+
+  const { peerVpc } = peering;
+  // Same-account, same-region requests are accepted here; anything else
+  // stays pending until the peer VPC's owner accepts it
+  const crossRegion = !!peerVpc?.region && peerVpc.region !== config.awsRegion;
+  const autoAccept = !!peerVpc && !peerVpc.ownerId && !crossRegion;
+
+  const peeringConnection = peerVpc
+    ? new aws.ec2.VpcPeeringConnection("pathfinder-vpc-peering", {
+        vpcId: network.vpcId,
+        peerVpcId: peerVpc.vpcId,
+        peerOwnerId: peerVpc.ownerId,
+        // AWS rejects autoAccept whenever a peer region is set, so only a
+        // different region is passed
+        peerRegion: crossRegion ? peerVpc.region : undefined,
+        autoAccept,
+        tags: {
+          ...commonTags,
+          Name: "pathfinder-vpc-peering",
+          Type: "vpc-peering-connection",
+        },
+      })
+    : undefined;
+
+  // ==========================================
+  // ROUTES
+  // ==========================================
+
+  const routeTables = [
+    ...network.routeTableIds.private.map((id, index) => ({
+      tier: `private-${index + 1}`,
+      id,
+    })),
+    ...(network.routeTableIds.database
+      ? [{ tier: "database", id: network.routeTableIds.database }]
+      : []),
+  ];
+
+  for (const peer of peering.peers) {
+    // Keyed by CIDR so reordering peers does not replace anything
+    const key = `pathfinder-peer-${peer.cidr.replace(/[./]/g, "-")}`;
+
+    const target =
+      peer.via === "transitGateway"
+        ? { transitGatewayId: peering.transitGatewayId }
+        : peeringConnection && { vpcPeeringConnectionId: peeringConnection.id };
+    // The settings schema already rejects vpcPeering without peerVpc
+    if (!target) {
+      throw new Error(
+        `Peer ${peer.cidr} is routed via vpcPeering, which needs peering.peerVpc`
+      );
+    }
+
+    for (const routeTable of routeTables) {
+      new aws.ec2.Route(
+        `${key}-route-${routeTable.tier}`,
+        {
+          routeTableId: routeTable.id,
+          destinationCidrBlock: peer.cidr,
+          ...target,
+        },
+        // Routes to a Transit Gateway fail until the attachment exists
+        { dependsOn: attachment ? [attachment] : [] }
+      );
+    }
+  }
+
+  return {
+    transitGatewayAttachmentId: attachment?.id,
+    vpcPeeringConnectionId: peeringConnection?.id,
+    peeringAcceptanceRequired: peerVpc ? !autoAccept : undefined,
+  };
+}
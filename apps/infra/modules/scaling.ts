@@ -1,44 +1,59 @@
 import * as aws from "@pulumi/aws";
 import * as pulumi from "@pulumi/pulumi";
-import { CommonConfig, ContainerOutputs, LoadBalancerOutputs } from "../types";
+import { ApplicationConfig, CommonConfig, ContainerOutputs, LoadBalancerOutputs } from "../types";
+import { createApplicationName, legacyAliasOptions, resolveApplicationSizing } from "../utils";
 
-export function createScaling(config: CommonConfig, container: ContainerOutputs, loadBalancer: LoadBalancerOutputs) {
+export function createScaling(
+  config: CommonConfig,
+  app: ApplicationConfig,
+  container: ContainerOutputs,
+  loadBalancer?: LoadBalancerOutputs,
+  targetGroupArn?: pulumi.Output<string>
+) {
   const { commonTags } = config;
+  const {
+    minInstances: ecsMinCapacity,
+    maxInstances: ecsMaxCapacity,
+    targetCpuPercent: ecsTargetCpuUtilization,
+  } = resolveApplicationSizing(config, app);
+
+  // The legacy app keeps its "pathfinder-" names; others are prefixed with the app name
+  const prefix = app.legacyAliases ? "pathfinder" : app.name;
 
   // Auto Scaling Target for ECS Service
-  const ecsTarget = new aws.appautoscaling.Target("pathfinder-ecs-target", {
-    maxCapacity: 10,
-    minCapacity: 2,
+  const ecsTarget = new aws.appautoscaling.Target(`${app.name}-ecs-target`, {
+    maxCapacity: ecsMaxCapacity,
+    minCapacity: ecsMinCapacity,
     resourceId: pulumi.interpolate`service/${container.clusterName}/${container.serviceName}`,
     scalableDimension: "ecs:service:DesiredCount",
     serviceNamespace: "ecs",
     tags: {
       ...commonTags,
-      Name: "pathfinder-ecs-target",
+      Name: `${app.name}-ecs-target`,
       Type: "autoscaling-target",
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-ecs-target"));
 
   // CPU-based Auto Scaling Policy
-  const cpuScalingPolicy = new aws.appautoscaling.Policy("pathfinder-cpu-scaling", {
-    name: "pathfinder-cpu-scaling",
+  const cpuScalingPolicy = new aws.appautoscaling.Policy(`${app.name}-cpu-scaling`, {
+    name: `${prefix}-cpu-scaling`,
     policyType: "TargetTrackingScaling",
     resourceId: ecsTarget.resourceId,
     scalableDimension: ecsTarget.scalableDimension,
     serviceNamespace: ecsTarget.serviceNamespace,
     targetTrackingScalingPolicyConfiguration: {
-      targetValue: 70.0, // Target 70% CPU utilization
+      targetValue: ecsTargetCpuUtilization,
       predefinedMetricSpecification: {
         predefinedMetricType: "ECSServiceAverageCPUUtilization",
       },
       scaleOutCooldown: 300, // 5 minutes
       scaleInCooldown: 300,  // 5 minutes
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-cpu-scaling"));
 
   // Memory-based Auto Scaling Policy
-  const memoryScalingPolicy = new aws.appautoscaling.Policy("pathfinder-memory-scaling", {
-    name: "pathfinder-memory-scaling",
+  const memoryScalingPolicy = new aws.appautoscaling.Policy(`${app.name}-memory-scaling`, {
+    name: `${prefix}-memory-scaling`,
     policyType: "TargetTrackingScaling",
     resourceId: ecsTarget.resourceId,
     scalableDimension: ecsTarget.scalableDimension,
@@ -51,67 +66,70 @@ export function createScaling(config: CommonConfig, container: ContainerOutputs,
       scaleOutCooldown: 300,
       scaleInCooldown: 600, // Longer cooldown for memory
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-memory-scaling"));
 
-  // ALB Request Count Scaling Policy
-  const requestCountScalingPolicy = new aws.appautoscaling.Policy("pathfinder-request-count-scaling", {
-    name: "pathfinder-request-count-scaling",
-    policyType: "TargetTrackingScaling",
-    resourceId: ecsTarget.resourceId,
-    scalableDimension: ecsTarget.scalableDimension,
-    serviceNamespace: ecsTarget.serviceNamespace,
-    targetTrackingScalingPolicyConfiguration: {
-      targetValue: 1000.0, // Target 1000 requests per target per minute
-      predefinedMetricSpecification: {
-        predefinedMetricType: "ALBRequestCountPerTarget",
-        resourceLabel: pulumi.all([loadBalancer.albArn, loadBalancer.targetGroupArn]).apply(([albArn, tgArn]: [string, string]) => {
-          // ALB ARN: arn:aws:elasticloadbalancing:region:account:loadbalancer/app/load-balancer-name/1234567890123456
-          // Target Group ARN: arn:aws:elasticloadbalancing:region:account:targetgroup/target-group-name/1234567890123456
-          // Required format: app/load-balancer-name/1234567890123456/targetgroup/target-group-name/1234567890123456
-          const albParts = albArn.split('/');
-          const tgParts = tgArn.split('/');
-          return `${albParts.slice(-3).join('/')}/targetgroup/${tgParts.slice(-2).join('/')}`;
-        }),
+  // ALB Request Count Scaling Policy (only for apps that receive ALB traffic)
+  if (loadBalancer && targetGroupArn) {
+    const requestCountScalingPolicy = new aws.appautoscaling.Policy(`${app.name}-request-count-scaling`, {
+      name: `${prefix}-request-count-scaling`,
+      policyType: "TargetTrackingScaling",
+      resourceId: ecsTarget.resourceId,
+      scalableDimension: ecsTarget.scalableDimension,
+      serviceNamespace: ecsTarget.serviceNamespace,
+      targetTrackingScalingPolicyConfiguration: {
+        targetValue: 1000.0, // Target 1000 requests per target per minute
+        predefinedMetricSpecification: {
+          predefinedMetricType: "ALBRequestCountPerTarget",
+          resourceLabel: pulumi.all([loadBalancer.albArn, targetGroupArn]).apply(([albArn, tgArn]: [string, string]) => {
+            // ALB ARN: arn:aws:elasticloadbalancing:region:account:loadbalancer/app/load-balancer-name/1234567890123456
+            // Target Group ARN: arn:aws:elasticloadbalancing:region:account:targetgroup/target-group-name/1234567890123456
+            // Required format: app/load-balancer-name/1234567890123456/targetgroup/target-group-name/1234567890123456
+            const albParts = albArn.split('/');
+            const tgParts = tgArn.split('/');
+            return `${albParts.slice(-3).join('/')}/targetgroup/${tgParts.slice(-2).join('/')}`;
+          }),
+        },
+        scaleOutCooldown: 300,
+        scaleInCooldown: 300,
       },
-      scaleOutCooldown: 300,
-      scaleInCooldown: 300,
-    },
-  });
+    }, legacyAliasOptions(app, "pathfinder-request-count-scaling"));
+  }
 
   // Scheduled Scaling for predictable load patterns
-  const scheduledScalingUp = new aws.appautoscaling.ScheduledAction("pathfinder-scale-up-business-hours", {
-    name: "pathfinder-scale-up-business-hours",
+  const scheduledScalingUp = new aws.appautoscaling.ScheduledAction(`${app.name}-scale-up-business-hours`, {
+    name: `${prefix}-scale-up-business-hours`,
     serviceNamespace: ecsTarget.serviceNamespace,
     resourceId: ecsTarget.resourceId,
     scalableDimension: ecsTarget.scalableDimension,
     schedule: "cron(0 9 ? * MON-FRI *)", // 9 AM UTC on weekdays
     scalableTargetAction: {
-      minCapacity: 3,
-      maxCapacity: 10,
+      // One extra warm task during business hours, within the stack's bounds
+      minCapacity: Math.min(ecsMinCapacity + 1, ecsMaxCapacity),
+      maxCapacity: ecsMaxCapacity,
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-scale-up-business-hours"));
 
-  const scheduledScalingDown = new aws.appautoscaling.ScheduledAction("pathfinder-scale-down-off-hours", {
-    name: "pathfinder-scale-down-off-hours", 
+  const scheduledScalingDown = new aws.appautoscaling.ScheduledAction(`${app.name}-scale-down-off-hours`, {
+    name: `${prefix}-scale-down-off-hours`, 
     serviceNamespace: ecsTarget.serviceNamespace,
     resourceId: ecsTarget.resourceId,
     scalableDimension: ecsTarget.scalableDimension,
     schedule: "cron(0 18 ? * MON-FRI *)", // 6 PM UTC on weekdays
     scalableTargetAction: {
-      minCapacity: 2,
-      maxCapacity: 5,
+      minCapacity: ecsMinCapacity,
+      maxCapacity: Math.max(Math.ceil(ecsMaxCapacity / 2), ecsMinCapacity),
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-scale-down-off-hours"));
 
   // CloudWatch Alarms for scaling monitoring
-  const scaleOutAlarm = new aws.cloudwatch.MetricAlarm("pathfinder-scale-out-alarm", {
-    name: "pathfinder-scale-out-triggered",
+  const scaleOutAlarm = new aws.cloudwatch.MetricAlarm(`${app.name}-scale-out-alarm`, {
+    name: createApplicationName(config, app, "scale-out-triggered", { suffix: "scale-out-triggered", name: "pathfinder-scale-out-triggered" }),
     metricName: "CPUUtilization",
     namespace: "AWS/ECS",
     statistic: "Average",
     period: 300,
     evaluationPeriods: 2,
-    threshold: 75,
+    threshold: Math.min(ecsTargetCpuUtilization + 5, 100),
     comparisonOperator: "GreaterThanThreshold",
     dimensions: pulumi.all([container.serviceName, container.clusterName]).apply(([serviceName, clusterName]: [string, string]) => ({
       ServiceName: serviceName,
@@ -119,13 +137,13 @@ export function createScaling(config: CommonConfig, container: ContainerOutputs,
     })),
     tags: {
       ...commonTags,
-      Name: "pathfinder-scale-out-alarm",
+      Name: `${app.name}-scale-out-alarm`,
       Type: "cloudwatch-alarm",
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-scale-out-alarm"));
 
-  const scaleInAlarm = new aws.cloudwatch.MetricAlarm("pathfinder-scale-in-alarm", {
-    name: "pathfinder-scale-in-triggered",
+  const scaleInAlarm = new aws.cloudwatch.MetricAlarm(`${app.name}-scale-in-alarm`, {
+    name: createApplicationName(config, app, "scale-in-triggered", { suffix: "scale-in-triggered", name: "pathfinder-scale-in-triggered" }),
     metricName: "CPUUtilization",
     namespace: "AWS/ECS",
     statistic: "Average",
@@ -139,15 +157,15 @@ export function createScaling(config: CommonConfig, container: ContainerOutputs,
     })),
     tags: {
       ...commonTags,
-      Name: "pathfinder-scale-in-alarm",
+      Name: `${app.name}-scale-in-alarm`,
       Type: "cloudwatch-alarm",
     },
-  });
+  }, legacyAliasOptions(app, "pathfinder-scale-in-alarm"));
 
   return {
     minCapacity: ecsTarget.minCapacity,
     maxCapacity: ecsTarget.maxCapacity,
-    cpuScaleUpThreshold: 70,
+    cpuScaleUpThreshold: ecsTargetCpuUtilization,
     cpuScaleDownThreshold: 25,
     memoryScaleUpThreshold: 80,
   };
@@ -0,0 +1,158 @@
+import * as aws from "@pulumi/aws";
+import * as pulumi from "@pulumi/pulumi";
+import * as random from "@pulumi/random";
+import {
+  ApplicationConfig,
+  ApplicationSecretsOutputs,
+  CommonConfig,
+  DatabaseOutputs,
+  KmsOutputs,
+} from "../types";
+import { createPhysicalPath } from "../utils";
+
+/**
+ * Resolve an application's secrets into task definition entries and the
+ * exact ARNs its execution role needs to read them
+ */
+export function createApplicationSecrets(
+  config: CommonConfig,
+  app: ApplicationConfig,
+  database: DatabaseOutputs,
+  kms?: KmsOutputs
+): ApplicationSecretsOutputs {
+  const { commonTags } = config;
+
+  const entries: { name: string; valueFrom: pulumi.Output<string> }[] = [];
+  const secretArns: pulumi.Output<string>[] = [];
+  const parameterArns: pulumi.Output<string>[] = [];
+  const environment: { name: string; value: pulumi.Output<string> }[] = [];
+  const taskSecretArns: pulumi.Output<string>[] = [];
+
+  // Tasks connect as the DML-only app role. Its secret is RDS JSON injected
+  // at start; after a rotation the app re-reads it by ARN. With RDS Proxy,
+  // DATABASE_HOST replaces its host.
+  if (app.requiresDatabaseAccess) {
+    entries.push({ name: "DATABASE_SECRET", valueFrom: database.appSecretArn });
+    secretArns.push(database.appSecretArn);
+    environment.push({
+      name: "DATABASE_SECRET_ARN",
+      value: database.appSecretArn,
+    });
+    taskSecretArns.push(database.appSecretArn);
+    if (database.proxyAddress) {
+      environment.push({ name: "DATABASE_HOST", value: database.proxyAddress });
+    }
+    // Replica for findMany and count outside transactions (apps/web/src/db);
+    // without it every query goes to the primary
+    if (database.readUrlSecretArn) {
+      entries.push({
+        name: "DATABASE_READ_URL",
+        valueFrom: database.readUrlSecretArn,
+      });
+      secretArns.push(database.readUrlSecretArn);
+    }
+  }
+
+  for (const [name, source] of Object.entries(app.secrets ?? {})) {
+    const resourceName = `${app.name}-${name.toLowerCase().replace(/_/g, "-")}`;
+
+    if ("secretArn" in source) {
+      const secretArn = pulumi.output(source.secretArn);
+      entries.push({
+        name,
+        // ECS reads one JSON key with <arn>:<key>:: (latest version)
+        valueFrom: source.jsonKey
+          ? pulumi.interpolate`${secretArn}:${source.jsonKey}::`
+          : secretArn,
+      });
+      secretArns.push(secretArn);
+    } else if ("parameter" in source) {
+      const parameterArn = source.parameter.startsWith("arn:")
+        ? pulumi.output(source.parameter)
+        : pulumi.interpolate`arn:aws:ssm:${config.awsRegion}:${aws.getCallerIdentityOutput().accountId}:parameter/${source.parameter.replace(/^\//, "")}`;
+      entries.push({ name, valueFrom: parameterArn });
+      parameterArns.push(parameterArn);
+    } else {
+      // Pulumi-managed value, stored in a secret owned by this stack
+      const secretString =
+        "generate" in source
+          ? new random.RandomPassword(`${resourceName}-value`, {
+              length: source.generate.length ?? 32,
+              special: source.generate.special ?? false,
+            }).result
+          : pulumi.secret(source.value);
+
+      const secret = new aws.secretsmanager.Secret(`${resourceName}-secret`, {
+        name: createPhysicalPath(config, `${app.name}/${name}`),
+        description: `${name} for the ${app.name} application`,
+        kmsKeyId: kms?.secrets.keyArn,
+        tags: {
+          ...commonTags,
+          Name: `${resourceName}-secret`,
+          Type: "secret",
+          Application: app.name,
+        },
+      });
+
+      new aws.secretsmanager.SecretVersion(`${resourceName}-secret-version`, {
+        secretId: secret.id,
+        secretString,
+      });
+
+      entries.push({ name, valueFrom: secret.arn });
+      secretArns.push(secret.arn);
+    }
+  }
+
+  return {
+    containerSecrets: pulumi.all(
+      entries.map(({ name, valueFrom }) =>
+        valueFrom.apply((value) => ({ name, valueFrom: value }))
+      )
+    ),
+    secretArns,
+    parameterArns,
+    containerEnvironment: pulumi.all(
+      environment.map(({ name, value }) =>
+        value.apply((resolved) => ({ name, value: resolved }))
+      )
+    ),
+    taskSecretArns,
+  };
+}
+
+/**
+ * Execution role policy covering exactly the application's secrets, or
+ * undefined when the app has none
+ */
+export function createSecretsPolicyDocument(
+  secrets: ApplicationSecretsOutputs
+): pulumi.Output<string> | undefined {
+  if (secrets.secretArns.length === 0 && secrets.parameterArns.length === 0) {
+    return undefined;
+  }
+
+  return pulumi
+    .all([pulumi.all(secrets.secretArns), pulumi.all(secrets.parameterArns)])
+    .apply(([secretArns, parameterArns]) => {
+      const statements = [];
+      if (secretArns.length > 0) {
+        statements.push({
+          Effect: "Allow",
+          Action: ["secretsmanager:GetSecretValue"],
+          Resource: [...new Set(secretArns)],
+        });
+      }
+      if (parameterArns.length > 0) {
+        statements.push({
+          Effect: "Allow",
+          Action: ["ssm:GetParameters"],
+          Resource: [...new Set(parameterArns)],
+        });
+      }
+      return JSON.stringify({
+        Version: "2012-10-17",
+        Statement: statements,
+      });
+    });
+}
@@ -0,0 +1,301 @@
+import { hasReadReplica } from "./database";
+import {
+  CommonConfig,
+  ConnectivityEntry,
+  ConnectivityReport,
+  SecurityFlow,
+  SecurityGroupName,
+} from "../types";
+
+// ==========================================
+// SECURITY GROUPS
+// ==========================================
+
+interface SecurityGroupDefinition {
+  /** Logical and Name tag; unchanged from the hand-written groups */
+  name: string;
+  /** Changing a description replaces the group, so these are frozen too */
+  description: string;
+  tier?: "public" | "private";
+  egressDescription: string;
+  /** Only created when a flow uses it */
+  optional?: boolean;
+}
+
+export const SECURITY_GROUPS: Record<
+  SecurityGroupName,
+  SecurityGroupDefinition
+> = {
+  alb: {
+    name: "pathfinder-alb-sg",
+    description: "Security group for Application Load Balancer",
+    tier: "public",
+    egressDescription: "All outbound traffic",
+  },
+  ecs: {
+    name: "pathfinder-ecs-sg",
+    description: "Security group for ECS services",
+    tier: "private",
+    egressDescription: "All outbound traffic",
+  },
+  database: {
+    name: "pathfinder-db-sg",
+    description: "Security group for RDS database",
+    tier: "private",
+    egressDescription: "Outbound traffic for updates and maintenance",
+  },
+  codeBuild: {
+    name: "pathfinder-codebuild-sg",
+    description: "Security group for CodeBuild projects",
+    tier: "private",
+    egressDescription: "Full outbound access for builds",
+  },
+  // No ingress: the router connects out to Tailscale. Use Tailscale SSH or
+  // SSM Session Manager instead of opening port 22.
+  tailscale: {
+    name: "pathfinder-tailscale-sg",
+    description: "Security group for Tailscale subnet router",
+    tier: "public",
+    egressDescription: "All outbound traffic",
+  },
+  vpcEndpoint: {
+    name: "pathfinder-vpc-endpoint-sg",
+    description:
+      "Security group for VPC endpoints (ECR, CodeBuild, CloudWatch)",
+    egressDescription: "All outbound traffic",
+  },
+  databaseProxy: {
+    name: "pathfinder-db-proxy-sg",
+    description: "Security group for RDS Proxy",
+    tier: "private",
+    egressDescription: "Connections to the database",
+    optional: true,
+  },
+  databaseFunctions: {
+    name: "pathfinder-db-functions-sg",
+    description:
+      "Security group for the database rotation and role provisioning Lambdas",
+    tier: "private",
+    egressDescription: "Database and Secrets Manager access",
+  },
+};
+
+// ==========================================
+// FLOWS
+// ==========================================
+
+/**
+ * Every connection the security groups allow. Security group ingress is
+ * generated from this list and nothing else, so a flow missing here is
+ * blocked.
+ *
+ * Only the rules the groups were created with are inline. Everything else
+ * is a standalone rule under a fixed logical name, because moving a rule
+ * between the two revokes it on existing stacks.
+ */
+export function securityFlows(config: CommonConfig): SecurityFlow[] {
+  const { securityConfig, networkConfig, databaseConfig } = config;
+  const allowedNetworks = {
+    cidrs: securityConfig.allowedCidrBlocks,
+    ...(networkConfig.ipv6 && {
+      ipv6Cidrs: securityConfig.allowedIpv6CidrBlocks,
+    }),
+    label: "allowed networks",
+  };
+
+  // RDS Proxy does not front read replicas, so DATABASE_READ_URL queries go
+  // to the database group directly
+  const ecsToReplica: SecurityFlow[] = hasReadReplica(config)
+    ? [
+        {
+          from: { group: "ecs" },
+          to: "database",
+          port: 5432,
+          description: "Read replica queries from ECS",
+        },
+      ]
+    : [];
+
+  // With RDS Proxy the tasks only reach the database through the proxy
+  const ecsToDatabase: SecurityFlow[] = databaseConfig.proxy.enabled
+    ? [
+        {
+          from: { group: "ecs" },
+          to: "databaseProxy",
+          port: 5432,
+          description: "PostgreSQL access from ECS through RDS Proxy",
+        },
+        {
+          from: { group: "databaseProxy" },
+          to: "database",
+          port: 5432,
+          description: "Pooled connections from RDS Proxy",
+          rule: "db-proxy-database-access",
+        },
+        ...ecsToReplica,
+      ]
+    : [
+        {
+          from: { group: "ecs" },
+          to: "database",
+          port: 5432,
+          description: "PostgreSQL access from ECS only",
+        },
+      ];
+
+  const flows: SecurityFlow[] = [
+    {
+      from: allowedNetworks,
+      to: "alb",
+      port: 80,
+      description: "HTTP access from allowed networks",
+    },
+    {
+      from: allowedNetworks,
+      to: "alb",
+      port: 443,
+      description: "HTTPS access from allowed networks",
+    },
+    {
+      from: { group: "alb" },
+      to: "ecs",
+      port: 3000,
+      description: "HTTP access from ALB only",
+    },
+    ...ecsToDatabase,
+    {
+      from: { group: "codeBuild" },
+      to: "database",
+      port: 5432,
+      description: "Allow CodeBuild to access database for builds",
+      rule: "build-database-access",
+    },
+    {
+      from: { group: "tailscale" },
+      to: "database",
+      port: 5432,
+      description: "Allow Tailscale router to access database for development",
+      rule: "tailscale-database-access",
+    },
+    // One inline rule for both sources, as the group was created with
+    {
+      from: { group: "ecs" },
+      to: "vpcEndpoint",
+      port: 443,
+      description: "HTTPS access from ECS and CodeBuild",
+    },
+    {
+      from: { group: "codeBuild" },
+      to: "vpcEndpoint",
+      port: 443,
+      description: "HTTPS access from ECS and CodeBuild",
+    },
+    {
+      from: { group: "databaseFunctions" },
+      to: "database",
+      port: 5432,
+      description: "Role provisioning and password rotation Lambdas",
+      rule: "db-functions-database-access",
+    },
+    {
+      from: { group: "databaseFunctions" },
+      to: "vpcEndpoint",
+      port: 443,
+      description: "HTTPS access from the database Lambdas",
+      rule: "db-functions-endpoint-access",
+    },
+  ];
+
+  // Declared ports for Transit Gateway and peering networks (peering.ts)
+  for (const peer of networkConfig.peering?.peers ?? []) {
+    for (const { to, port } of peer.allow) {
+      flows.push({
+        from: { cidrs: [peer.cidr], label: `${peer.via} ${peer.cidr}` },
+        to,
+        port,
+        description: `Port ${port} from ${peer.cidr} via ${peer.via}`,
+        rule: `pathfinder-peer-${peer.cidr.replace(/[./]/g, "-")}-${to}-${port}`,
+      });
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Security groups ordered so that every group comes after the groups its
+ * inline ingress accepts traffic from, which lets the rules reference them
+ */
+export function creationOrder(flows: SecurityFlow[]): SecurityGroupName[] {
+  const order: SecurityGroupName[] = [];
+  const visiting = new Set<SecurityGroupName>();
+
+  const visit = (group: SecurityGroupName) => {
+    if (order.includes(group)) return;
+    if (visiting.has(group)) {
+      throw new Error(
+        `Security flows form a cycle through "${group}"; inline rules cannot reference each other`
+      );
+    }
+    visiting.add(group);
+    for (const flow of flows) {
+      if (flow.to === group && !flow.rule && "group" in flow.from) {
+        visit(flow.from.group);
+      }
+    }
+    visiting.delete(group);
+    order.push(group);
+  };
+
+  (Object.keys(SECURITY_GROUPS) as SecurityGroupName[])
+    .filter(
+      (group) =>
+        !SECURITY_GROUPS[group].optional ||
+        flows.some((flow) => flow.to === group)
+    )
+    .forEach(visit);
+  return order;
+}
+
+// ==========================================
+// CONNECTIVITY REPORT
+// ==========================================
+
+const sourceName = (flow: SecurityFlow) =>
+  "group" in flow.from ? flow.from.group : flow.from.label;
+
+/**
+ * Who can reach what: a flat list for tooling plus a markdown matrix with
+ * sources as rows and security groups as columns
+ */
+export function connectivityReport(flows: SecurityFlow[]): ConnectivityReport {
+  const entries: ConnectivityEntry[] = flows.map((flow) => ({
+    from: sourceName(flow),
+    to: flow.to,
+    port: flow.port,
+    protocol: "tcp",
+    description: flow.description,
+  }));
+
+  const sources = [...new Set(entries.map((entry) => entry.from))];
+  const targets = (Object.keys(SECURITY_GROUPS) as SecurityGroupName[]).filter(
+    (group) => entries.some((entry) => entry.to === group)
+  );
+
+  const cell = (from: string, to: SecurityGroupName) =>
+    entries
+      .filter((entry) => entry.from === from && entry.to === to)
+      .map((entry) => entry.port)
+      .join(", ");
+
+  const markdown = [
+    `| from \\ to | ${targets.join(" | ")} |`,
+    `| --- | ${targets.map(() => "---").join(" | ")} |`,
+    ...sources.map(
+      (from) =>
+        `| ${from} | ${targets.map((to) => cell(from, to)).join(" | ")} |`
+    ),
+  ].join("\n");
+
+  return { entries, markdown };
+}
@@ -0,0 +1,851 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import {
+  DatabaseConfig,
+  EnvironmentConfig,
+  FeatureFlags,
+  NetworkConfig,
+  SecurityConfig,
+} from "../types";
+import {
+  DEFAULT_INTERFACE_ENDPOINTS,
+  INTERFACE_ENDPOINT_NAMES,
+  InterfaceEndpoint,
+  NO_EGRESS_ENDPOINTS,
+} from "./endpoint-catalog";
+import { cidrsOverlap, MAX_AZS, planSubnets } from "./subnet-plan";
+
+// Checked-in per-stack settings live in apps/infra/stacks/<name>.json
+export const STACKS_DIR = path.join(__dirname, "..", "stacks");
+
+// CloudWatch Logs only accepts these retention values
+const LOG_RETENTION_DAYS = [
+  1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827,
+  2192, 2557, 2922, 3288, 3653,
+];
+
+// Valid Fargate memory (MiB) for each task CPU size
+type MemoryRange = { min: number; max: number; step: number };
+const FARGATE_MEMORY: Record<number, MemoryRange> = {
+  256: { min: 512, max: 2048, step: 512 },
+  512: { min: 1024, max: 4096, step: 1024 },
+  1024: { min: 2048, max: 8192, step: 1024 },
+  2048: { min: 4096, max: 16384, step: 1024 },
+  4096: { min: 8192, max: 30720, step: 1024 },
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// ==========================================
+// SCHEMA
+// ==========================================
+
+const cidrBlock = z
+  .string()
+  .regex(
+    /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/,
+    "must be an IPv4 CIDR block such as 10.0.0.0/16"
+  );
+
+const ipv6CidrBlock = z
+  .string()
+  .regex(
+    /^[0-9a-fA-F:]+\/\d{1,3}$/,
+    "must be an IPv6 CIDR block such as 2001:db8::/32"
+  );
+
+const retentionDays = z
+  .number()
+  .int()
+  .refine((days) => LOG_RETENTION_DAYS.includes(days), {
+    message: `must be one of ${LOG_RETENTION_DAYS.join(", ")}`,
+  });
+
+// AWS subnets are between /16 and /28
+const subnetPrefix = z.number().int().min(16).max(28);
+
+const subnetSchema = z
+  .object({
+    cidr: cidrBlock,
+    az: z.number().int().min(0),
+  })
+  .strict();
+
+const resourceId = (prefix: string) =>
+  z
+    .string()
+    .regex(
+      new RegExp(`^${prefix}-[0-9a-f]+$`),
+      `must be an ID such as ${prefix}-0123456789abcdef0`
+    );
+
+const existingVpcSchema = z
+  .object({
+    vpcId: resourceId("vpc"),
+    publicSubnetIds: z.array(resourceId("subnet")).min(1),
+    privateSubnetIds: z.array(resourceId("subnet")).min(1),
+    databaseSubnetIds: z.array(resourceId("subnet")).min(2).optional(),
+    routeTableIds: z
+      .object({
+        public: resourceId("rtb"),
+        private: z.array(resourceId("rtb")).min(1),
+        database: resourceId("rtb").optional(),
+      })
+      .strict(),
+    // Endpoints Pathfinder adds to the VPC. Turn them off where its owner
+    // already has them: AWS rejects a second S3 gateway endpoint on a route
+    // table, and private DNS for a service that already has it.
+    endpoints: z
+      .object({
+        s3: z.boolean().default(true),
+        interface: z.boolean().default(true),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+const peeringSchema = z
+  .object({
+    transitGatewayId: resourceId("tgw").optional(),
+    peerVpc: z
+      .object({
+        vpcId: resourceId("vpc"),
+        ownerId: z
+          .string()
+          .regex(/^\d{12}$/, "must be a 12-digit AWS account ID")
+          .optional(),
+        region: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    peers: z
+      .array(
+        z
+          .object({
+            cidr: cidrBlock,
+            via: z.enum(["transitGateway", "vpcPeering"]),
+            allow: z.array(
+              z
+                .object({
+                  to: z.enum(["ecs", "database"]),
+                  port: z.number().int().min(1).max(65535),
+                })
+                .strict()
+            ),
+          })
+          .strict()
+      )
+      .min(1),
+  })
+  .strict()
+  .superRefine((peering, ctx) => {
+    peering.peers.forEach((peer, index) => {
+      const missing =
+        peer.via === "transitGateway"
+          ? !peering.transitGatewayId && "transitGatewayId"
+          : !peering.peerVpc && "peerVpc";
+      if (missing) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `peers routed via ${peer.via} need ${missing}`,
+          path: ["peers", index, "via"],
+        });
+      }
+      if (peer.cidr.endsWith("/0")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "must be a specific network, not /0",
+          path: ["peers", index, "cidr"],
+        });
+      }
+    });
+  });
+
+// Aurora capacity units come in steps of 0.5
+const acu = z
+  .number()
+  .min(0)
+  .max(256)
+  .refine((units) => Number.isInteger(units * 2), {
+    message: "must be a multiple of 0.5",
+  });
+
+const databaseSchema = z
+  .object({
+    // "rds": one PostgreSQL instance (plus the prod read replica);
+    // "aurora-serverless-v2": an Aurora cluster that scales in ACUs
+    engine: z.enum(["rds", "aurora-serverless-v2"]).default("rds"),
+    // A major version change upgrades through an RDS blue/green deployment
+    // when the instance can use one (database.ts upgradeStrategy)
+    engineVersion: z
+      .string()
+      .regex(/^\d+\.\d+$/, 'must be a PostgreSQL version such as "15.8"')
+      .default("15.8"),
+    // RDS read replica (needs backups); defaults to prod. Blue/green
+    // upgrades cannot run while it exists.
+    readReplica: z.boolean().optional(),
+    // Logging and audit parameters: every statement (verbose-dev), DDL and
+    // slow queries (balanced), or pgaudit with no values (audit-prod)
+    parameterProfile: z
+      .enum(["verbose-dev", "balanced", "audit-prod"])
+      .default("balanced"),
+    instanceClass: z
+      .string()
+      .regex(/^db\./, "must be an RDS instance class such as db.t3.small"),
+    allocatedStorage: z.number().int().min(20),
+    maxAllocatedStorage: z.number().int().min(20),
+    deletionProtection: z.boolean(),
+    backupRetentionPeriod: z.number().int().min(0).max(35),
+    // Aurora only; minCapacity 0 pauses the cluster when idle
+    serverless: z
+      .object({
+        minCapacity: acu.default(0.5),
+        maxCapacity: acu.default(4),
+        readers: z.number().int().min(0).max(15).default(0),
+        // Idle time before a cluster with minCapacity 0 pauses
+        autoPauseMinutes: z.number().int().min(5).max(1440).default(30),
+      })
+      .strict()
+      .default({}),
+    // RDS Proxy between the application and the database; migrations keep
+    // connecting directly
+    proxy: z
+      .object({
+        enabled: z.boolean().default(false),
+        // Share of the database's max_connections the proxy may open
+        maxConnectionsPercent: z.number().int().min(1).max(100).default(90),
+        idleClientTimeoutMinutes: z.number().int().min(1).max(480).default(30),
+      })
+      .strict()
+      .default({}),
+    // Scheduled rotation of the master password by a rotation Lambda
+    rotation: z
+      .object({
+        enabled: z.boolean().default(true),
+        intervalDays: z.number().int().min(1).max(365).default(30),
+      })
+      .strict()
+      .default({}),
+    // Build a new database from a snapshot (a DB snapshot for rds, a cluster
+    // snapshot for Aurora) or from another database at a point in time
+    restoreFrom: z
+      .union([
+        z.object({ snapshotId: z.string().min(1) }).strict(),
+        z
+          .object({
+            // DB instance (rds) or cluster (Aurora) identifier
+            sourceInstance: z.string().min(1),
+            pointInTime: z.union([
+              z.literal("latest"),
+              z.string().datetime({ offset: true }),
+            ]),
+          })
+          .strict(),
+      ])
+      .optional(),
+  })
+  .strict()
+  .refine((db) => db.maxAllocatedStorage >= db.allocatedStorage, {
+    message: "maxAllocatedStorage must be >= allocatedStorage",
+    path: ["maxAllocatedStorage"],
+  })
+  .refine(
+    (db) => db.serverless.maxCapacity >= Math.max(db.serverless.minCapacity, 1),
+    {
+      message: "must be at least 1 and >= minCapacity",
+      path: ["serverless", "maxCapacity"],
+    }
+  );
+
+const scalingSchema = z
+  .object({
+    minCapacity: z.number().int().min(1),
+    maxCapacity: z.number().int().min(1),
+    targetCpuUtilization: z.number().min(1).max(100),
+  })
+  .strict()
+  .refine((scaling) => scaling.maxCapacity >= scaling.minCapacity, {
+    message: "maxCapacity must be >= minCapacity",
+    path: ["maxCapacity"],
+  });
+
+const containerSchema = z
+  .object({
+    cpu: z
+      .number()
+      .int()
+      .refine((cpu) => cpu in FARGATE_MEMORY, {
+        message: `must be one of ${Object.keys(FARGATE_MEMORY).join(", ")}`,
+      }),
+    memory: z.number().int(),
+    desiredCount: z.number().int().min(0),
+  })
+  .strict()
+  .refine(
+    ({ cpu, memory }) => {
+      const range = FARGATE_MEMORY[cpu];
+      return (
+        !range ||
+        (memory >= range.min &&
+          memory <= range.max &&
+          (memory - range.min) % range.step === 0)
+      );
+    },
+    {
+      message: "is not a valid Fargate memory size for the configured cpu",
+      path: ["memory"],
+    }
+  );
+
+const buildSchema = z
+  .object({
+    instanceType: z.enum([
+      "BUILD_GENERAL1_SMALL",
+      "BUILD_GENERAL1_MEDIUM",
+      "BUILD_GENERAL1_LARGE",
+      "BUILD_GENERAL1_2XLARGE",
+    ]),
+    timeoutMinutes: z.number().int().min(5).max(480),
+  })
+  .strict();
+
+const featuresSchema = z
+  .object({
+    enableCodeBuild: z.boolean(),
+    enableTailscale: z.boolean(),
+    enableBetterStack: z.boolean(),
+    enableAutoScaling: z.boolean(),
+    enableBackups: z.boolean(),
+    enableSSL: z.boolean(),
+  })
+  .strict();
+
+export const stackSettingsSchema = z
+  .object({
+    // Existing single-stack deployments keep their fixed physical names
+    legacyResourceNames: z.boolean().default(false),
+    database: databaseSchema,
+    container: containerSchema,
+    scaling: scalingSchema,
+    build: buildSchema,
+    features: featuresSchema,
+    tailscale: z
+      .object({
+        instanceType: z.string().min(1),
+      })
+      .strict(),
+    monitoring: z
+      .object({
+        logRetentionDays: retentionDays,
+        detailedMonitoring: z.boolean(),
+      })
+      .strict(),
+    networking: z
+      .object({
+        vpcCidr: cidrBlock,
+        // "single" NAT gateway, one NAT gateway "perAz", a NAT "instance", or
+        // "none" for private subnets that only reach AWS via VPC endpoints
+        natMode: z
+          .enum(["single", "perAz", "instance", "none"])
+          .default("single"),
+        natInstanceType: z.string().min(1).default("t4g.nano"),
+        // Interface endpoints (see endpoint-catalog.ts) in the private subnets
+        interfaceEndpoints: z
+          .array(
+            z.enum(
+              INTERFACE_ENDPOINT_NAMES as [
+                InterfaceEndpoint,
+                ...InterfaceEndpoint[],
+              ]
+            )
+          )
+          .default(DEFAULT_INTERFACE_ENDPOINTS),
+        // Subnets are planned from these unless a layout is pinned below
+        azCount: z.number().int().min(2).max(MAX_AZS).default(2),
+        subnetSizes: z
+          .object({
+            public: subnetPrefix,
+            private: subnetPrefix,
+            database: subnetPrefix,
+          })
+          .strict()
+          .default({ public: 24, private: 20, database: 24 }),
+        // VPC flow logs, to S3 as Parquet (queried with Athena) or CloudWatch
+        flowLogs: z
+          .object({
+            enabled: z.boolean(),
+            destination: z.enum(["s3", "cloudwatch"]).default("s3"),
+            retentionDays: retentionDays.default(90),
+          })
+          .strict()
+          .default({ enabled: false }),
+        // Explicit layout for stacks created before subnet planning. null
+        // drops a layout inherited from the profile, so a new stack that
+        // extends dev, staging or prod gets planned subnets.
+        subnets: z
+          .object({
+            public: z.array(subnetSchema).min(1),
+            private: z.array(subnetSchema).min(1),
+            database: z.array(subnetSchema).min(2).optional(),
+          })
+          .strict()
+          .nullable()
+          .optional(),
+        // A VPC owned by another team; Pathfinder only adds security groups
+        // and endpoints to it
+        existingVpc: existingVpcSchema.optional(),
+        // Transit Gateway attachment or VPC peering for internal networks
+        peering: peeringSchema.optional(),
+        // Dual-stack: Amazon-provided IPv6 on the VPC, subnets and ALB
+        ipv6: z.boolean().default(false),
+      })
+      .strict()
+      .superRefine((networking, ctx) => {
+        networking.peering?.peers.forEach((peer, index) => {
+          if (cidrsOverlap(peer.cidr, networking.vpcCidr)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `overlaps the VPC CIDR ${networking.vpcCidr}`,
+              path: ["peering", "peers", index, "cidr"],
+            });
+          }
+        });
+        if (networking.existingVpc) {
+          if (networking.subnets) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: "cannot be combined with existingVpc",
+              path: ["subnets"],
+            });
+          }
+          if (networking.natMode === "none") {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message:
+                "does not apply to an existing VPC; egress is up to its owner",
+              path: ["natMode"],
+            });
+          }
+        }
+        if (networking.natMode === "none") {
+          const missing = NO_EGRESS_ENDPOINTS.filter(
+            (service) => !networking.interfaceEndpoints.includes(service)
+          );
+          if (missing.length > 0) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `natMode "none" needs interface endpoints for ${missing.join(", ")}`,
+              path: ["interfaceEndpoints"],
+            });
+          }
+        }
+        if (
+          new Set(networking.interfaceEndpoints).size !==
+          networking.interfaceEndpoints.length
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "must not list an endpoint twice",
+            path: ["interfaceEndpoints"],
+          });
+        }
+        if (networking.subnets) {
+          const { public: publicSubnets, private: privateSubnets } =
+            networking.subnets;
+          if (
+            networking.natMode === "perAz" &&
+            !privateSubnets.every((privateSubnet) =>
+              publicSubnets.some(
+                (publicSubnet) => publicSubnet.az === privateSubnet.az
+              )
+            )
+          ) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message:
+                'natMode "perAz" needs a public subnet in every AZ that has private subnets',
+              path: ["natMode"],
+            });
+          }
+          return;
+        }
+        try {
+          planSubnets(
+            networking.vpcCidr,
+            networking.azCount,
+            networking.subnetSizes
+          );
+        } catch (error) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: (error as Error).message,
+            path: ["subnetSizes"],
+          });
+        }
+      }),
+    security: z
+      .object({
+        allowedCidrBlocks: z.array(cidrBlock).min(1),
+        // Defaults to ::/0 when allowedCidrBlocks is open, otherwise none
+        allowedIpv6CidrBlocks: z.array(ipv6CidrBlock).optional(),
+        sslCertificateArn: z.string().startsWith("arn:").optional(),
+        enableWaf: z.boolean(),
+        waf: z
+          .object({
+            // Requests per client IP in any 5-minute window before blocking
+            rateLimit: z.number().int().min(100).default(2000),
+            // Block everything outside allowedCidrBlocks at the WAF as well
+            ipAllowlist: z.boolean().default(false),
+            logRetentionDays: retentionDays.default(30),
+          })
+          .strict()
+          .default({}),
+        // Customer-managed keys for the data, logs, secrets and artifacts
+        // domains (modules/kms.ts)
+        kms: z
+          .object({
+            enabled: z.boolean().default(false),
+            deletionWindowDays: z.number().int().min(7).max(30).default(30),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .refine(
+        (security) =>
+          !security.waf.ipAllowlist ||
+          [
+            ...security.allowedCidrBlocks,
+            ...(security.allowedIpv6CidrBlocks ?? []),
+          ].every((cidr) => !cidr.endsWith("/0")),
+        {
+          message:
+            "waf.ipAllowlist needs specific allowedCidrBlocks; WAF IP sets cannot contain /0",
+          path: ["waf", "ipAllowlist"],
+        }
+      ),
+  })
+  .strict()
+  .refine(
+    (settings) =>
+      !settings.features.enableSSL || !!settings.security.sslCertificateArn,
+    {
+      message: "enableSSL requires security.sslCertificateArn",
+      path: ["features", "enableSSL"],
+    }
+  )
+  .refine(
+    (settings) =>
+      settings.container.desiredCount >= settings.scaling.minCapacity &&
+      settings.container.desiredCount <= settings.scaling.maxCapacity,
+    {
+      message: "must be between scaling.minCapacity and scaling.maxCapacity",
+      path: ["container", "desiredCount"],
+    }
+  );
+
+export type StackSettings = z.infer<typeof stackSettingsSchema>;
+
+export interface StackSettingsSource {
+  /** Base profile for stacks without a checked-in file (pathfinder:extends) */
+  extends?: string;
+  /** Per-stack overrides from Pulumi config (pathfinder:settings) */
+  overrides?: unknown;
+  /** Where profiles are read from; defaults to the working tree */
+  store?: ProfileStore;
+}
+
+/**
+ * Read access to stack profiles, so tooling can load them from another git
+ * revision as well as from the working tree
+ */
+export interface ProfileStore {
+  /** Profile names without the .json extension */
+  list(): string[];
+  /** Raw JSON of a profile, or undefined if it does not exist */
+  read(name: string): string | undefined;
+}
+
+// ==========================================
+// LOADING
+// ==========================================
+
+type RawSettings = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is RawSettings {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge where objects merge key by key and arrays/scalars replace
+ */
+function mergeSettings(base: RawSettings, override: RawSettings): RawSettings {
+  const merged: RawSettings = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeSettings(merged[key] as RawSettings, value)
+        : value;
+  }
+  return merged;
+}
+
+function profilePath(name: string): string {
+  return path.join(STACKS_DIR, `${name}.json`);
+}
+
+export const workingTreeProfiles: ProfileStore = {
+  list() {
+    if (!fs.existsSync(STACKS_DIR)) {
+      return [];
+    }
+    return fs
+      .readdirSync(STACKS_DIR)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.replace(/\.json$/, ""))
+      .sort();
+  },
+  read(name) {
+    const file = profilePath(name);
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+  },
+};
+
+export function listProfiles(
+  store: ProfileStore = workingTreeProfiles
+): string[] {
+  return store.list();
+}
+
+function readProfile(
+  name: string,
+  store: ProfileStore,
+  chain: string[] = []
+): RawSettings {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}": use lowercase letters, digits and dashes`
+    );
+  }
+  if (chain.includes(name)) {
+    throw new Error(
+      `Circular "extends" in stack profiles: ${[...chain, name].join(" -> ")}`
+    );
+  }
+
+  const file = `stacks/${name}.json`;
+  const contents = store.read(name);
+  if (contents === undefined) {
+    throw new Error(
+      `Unknown profile "${name}" (expected ${file}). ` +
+        `Known profiles: ${listProfiles(store).join(", ") || "none"}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Could not parse ${file}: ${(error as Error).message}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`${file} must contain a JSON object`);
+  }
+
+  const { extends: parent, ...settings } = parsed;
+  if (parent === undefined) {
+    return settings;
+  }
+  if (typeof parent !== "string") {
+    throw new Error(`"extends" in ${file} must be a profile name`);
+  }
+  return mergeSettings(readProfile(parent, store, [...chain, name]), settings);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const location = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return `  - ${location}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Resolve and validate the settings for a stack.
+ *
+ * Lookup order: stacks/<stack>.json (following its "extends" chain), or the
+ * profile named by pathfinder:extends for stacks without a checked-in file;
+ * pathfinder:settings is then deep-merged on top. A stack with none of these
+ * is an error rather than a silent fallback to dev.
+ */
+export function loadStackSettings(
+  stack: string,
+  source: StackSettingsSource = {}
+): StackSettings {
+  const store = source.store ?? workingTreeProfiles;
+  const hasStackFile =
+    PROFILE_NAME_PATTERN.test(stack) && store.read(stack) !== undefined;
+
+  if (hasStackFile && source.extends) {
+    throw new Error(
+      `Stack "${stack}" has a checked-in profile; set "extends" in stacks/${stack}.json instead of pathfinder:extends`
+    );
+  }
+  if (!hasStackFile && !source.extends && source.overrides === undefined) {
+    throw new Error(
+      `Unknown stack "${stack}": there is no stacks/${stack}.json and neither pathfinder:extends nor pathfinder:settings is set.\n` +
+        `Add a profile or run: pulumi config set pathfinder:extends <profile>\n` +
+        `Known profiles: ${listProfiles(store).join(", ") || "none"}`
+    );
+  }
+  if (source.overrides !== undefined && !isPlainObject(source.overrides)) {
+    throw new Error("pathfinder:settings must be an object");
+  }
+
+  const base = hasStackFile
+    ? readProfile(stack, store)
+    : source.extends
+      ? readProfile(source.extends, store)
+      : {};
+  const merged = source.overrides
+    ? mergeSettings(base, source.overrides as RawSettings)
+    : base;
+
+  const result = stackSettingsSchema.safeParse(merged);
+  if (!result.success) {
+    throw new Error(
+      `Invalid settings for stack "${stack}":\n${formatIssues(result.error)}`
+    );
+  }
+  return result.data;
+}
+
+// ==========================================
+// DERIVED CONFIGURATION
+// ==========================================
+
+// Feature flags that can also be set individually as pathfinder:<flag>
+export const FEATURE_FLAG_KEYS: (keyof FeatureFlags)[] = [
+  "enableCodeBuild",
+  "enableTailscale",
+  "enableBetterStack",
+  "enableDetailedMonitoring",
+  "enableAutoScaling",
+  "enableBackups",
+  "enableSSL",
+];
+
+/**
+ * Feature flags from the stack profile; individually configured flags win
+ */
+export function resolveFeatureFlags(
+  settings: StackSettings,
+  overrides: Partial<FeatureFlags> = {}
+): FeatureFlags {
+  const features: FeatureFlags = {
+    ...settings.features,
+    enableDetailedMonitoring: settings.monitoring.detailedMonitoring,
+  };
+  for (const key of FEATURE_FLAG_KEYS) {
+    features[key] = overrides[key] ?? features[key];
+  }
+
+  if (features.enableSSL && !settings.security.sslCertificateArn) {
+    throw new Error(
+      "pathfinder:enableSSL requires security.sslCertificateArn in the stack settings"
+    );
+  }
+  // The subnet router joins the tailnet over the internet
+  if (features.enableTailscale && settings.networking.natMode === "none") {
+    throw new Error(
+      'pathfinder:enableTailscale cannot be used with networking.natMode "none"'
+    );
+  }
+  // Builds clone the repository from GitHub and download Bun and npm packages
+  if (features.enableCodeBuild && settings.networking.natMode === "none") {
+    throw new Error(
+      'pathfinder:enableCodeBuild cannot be used with networking.natMode "none"'
+    );
+  }
+  return features;
+}
+
+export function resolveEnvironmentConfig(
+  settings: StackSettings,
+  features: FeatureFlags
+): EnvironmentConfig {
+  return {
+    dbInstanceClass: settings.database.instanceClass,
+    dbAllocatedStorage: settings.database.allocatedStorage,
+    dbMaxAllocatedStorage: settings.database.maxAllocatedStorage,
+    dbBackupRetentionPeriod: features.enableBackups
+      ? settings.database.backupRetentionPeriod
+      : 0,
+    dbDeletionProtection: settings.database.deletionProtection,
+    ecsCpu: settings.container.cpu,
+    ecsMemory: settings.container.memory,
+    ecsDesiredCount: settings.container.desiredCount,
+    ecsMinCapacity: settings.scaling.minCapacity,
+    ecsMaxCapacity: settings.scaling.maxCapacity,
+    ecsTargetCpuUtilization: settings.scaling.targetCpuUtilization,
+    logRetentionDays: settings.monitoring.logRetentionDays,
+    codeBuildInstanceType: settings.build.instanceType,
+    codeBuildTimeout: settings.build.timeoutMinutes,
+    tailscaleInstanceType: settings.tailscale.instanceType,
+  };
+}
+
+/**
+ * Network configuration with the subnet layout resolved: the pinned
+ * networking.subnets if present, otherwise the plan for azCount/subnetSizes
+ */
+export function resolveNetworkConfig(settings: StackSettings): NetworkConfig {
+  const { subnets, azCount, subnetSizes, ...networking } = settings.networking;
+  return {
+    ...networking,
+    subnets: subnets ?? planSubnets(networking.vpcCidr, azCount, subnetSizes),
+  };
+}
+
+/**
+ * Database engine settings; the sizing fields stay in EnvironmentConfig
+ */
+export function resolveDatabaseConfig(settings: StackSettings): DatabaseConfig {
+  const {
+    engine,
+    engineVersion,
+    readReplica,
+    parameterProfile,
+    serverless,
+    proxy,
+    rotation,
+    restoreFrom,
+  } = settings.database;
+  return {
+    engine,
+    engineVersion,
+    readReplica,
+    parameterProfile,
+    serverless,
+    proxy,
+    rotation,
+    restoreFrom,
+  };
+}
+
+/**
+ * Security configuration with the IPv6 allow-list resolved: open to ::/0 only
+ * if IPv4 is open to 0.0.0.0/0, so enabling IPv6 never widens access
+ */
+export function resolveSecurityConfig(settings: StackSettings): SecurityConfig {
+  const { allowedIpv6CidrBlocks, ...security } = settings.security;
+  return {
+    ...security,
+    allowedIpv6CidrBlocks:
+      allowedIpv6CidrBlocks ??
+      (security.allowedCidrBlocks.includes("0.0.0.0/0") ? ["::/0"] : []),
+  };
+}
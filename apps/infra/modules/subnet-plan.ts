@@ -0,0 +1,135 @@
+import { SubnetLayout } from "../types";
+
+// Every tier reserves room for this many AZs, so raising azCount later only
+// adds subnets instead of moving the existing ones
+export const MAX_AZS = 6;
+
+export type SubnetTier = keyof Required<SubnetLayout>;
+
+/** Prefix length of each tier's subnets, e.g. 20 for a /20 per AZ */
+export type SubnetSizes = Record<SubnetTier, number>;
+
+// Allocation order for tiers of equal size
+const TIER_ORDER: SubnetTier[] = ["private", "public", "database"];
+
+// ==========================================
+// IPV4 HELPERS
+// ==========================================
+
+function parseCidr(cidr: string): { base: number; prefix: number } {
+  const [address, prefix] = cidr.split("/");
+  const base = address
+    .split(".")
+    .reduce((total, octet) => total * 256 + Number(octet), 0);
+  return { base, prefix: Number(prefix) };
+}
+
+function formatCidr(base: number, prefix: number): string {
+  const octets = [24, 16, 8, 0].map(
+    (shift) => Math.floor(base / 2 ** shift) % 256
+  );
+  return `${octets.join(".")}/${prefix}`;
+}
+
+function blockSize(prefix: number): number {
+  return 2 ** (32 - prefix);
+}
+
+/** Whether two CIDR blocks share any address */
+export function cidrsOverlap(a: string, b: string): boolean {
+  const first = parseCidr(a);
+  const second = parseCidr(b);
+  const firstEnd = first.base + blockSize(first.prefix);
+  const secondEnd = second.base + blockSize(second.prefix);
+  return first.base < secondEnd && second.base < firstEnd;
+}
+
+// ==========================================
+// IPV6 HELPERS
+// ==========================================
+
+/**
+ * The `index`-th /64 of an Amazon-provided /56, e.g. index 1 of
+ * 2600:1f18:abc:de00::/56 is 2600:1f18:abc:de01::/64
+ */
+export function ipv6Subnet(vpcIpv6Cidr: string, index: number): string {
+  const [address, prefix] = vpcIpv6Cidr.split("/");
+  if (prefix !== "56") {
+    throw new Error(`Expected an IPv6 /56, got ${vpcIpv6Cidr}`);
+  }
+  if (index < 0 || index > 255) {
+    throw new Error(
+      `A /56 has 256 /64 subnets; index ${index} is out of range`
+    );
+  }
+  const [head] = address.split("::");
+  const hextets = head.split(":").map((hextet) => parseInt(hextet || "0", 16));
+  while (hextets.length < 4) hextets.push(0);
+  hextets[3] = (hextets[3] & 0xff00) | index;
+  return `${hextets
+    .slice(0, 4)
+    .map((hextet) => hextet.toString(16))
+    .join(":")}::/64`;
+}
+
+// ==========================================
+// PLANNING
+// ==========================================
+
+/**
+ * Carve public, private (application) and isolated database subnets for
+ * `azCount` AZs out of the VPC CIDR.
+ *
+ * Tiers are allocated largest first, each as MAX_AZS consecutive blocks, so
+ * every subnet is aligned and tiers never overlap. The plan only depends on
+ * the VPC CIDR and the tier sizes; changing a size moves the tiers after it.
+ */
+export function planSubnets(
+  vpcCidr: string,
+  azCount: number,
+  sizes: SubnetSizes
+): Required<SubnetLayout> {
+  const vpc = parseCidr(vpcCidr);
+  const vpcSize = blockSize(vpc.prefix);
+  if (vpc.base % vpcSize !== 0) {
+    throw new Error(
+      `${vpcCidr} is not a network address (did you mean ${formatCidr(vpc.base - (vpc.base % vpcSize), vpc.prefix)}?)`
+    );
+  }
+  if (azCount < 1 || azCount > MAX_AZS) {
+    throw new Error(`azCount must be between 1 and ${MAX_AZS}`);
+  }
+
+  const plan: Required<SubnetLayout> = {
+    public: [],
+    private: [],
+    database: [],
+  };
+  const tiers = [...TIER_ORDER].sort((a, b) => sizes[a] - sizes[b]);
+
+  let next = vpc.base;
+  for (const tier of tiers) {
+    const prefix = sizes[tier];
+    if (prefix <= vpc.prefix) {
+      throw new Error(
+        `${tier} subnets (/${prefix}) must be smaller than the VPC (/${vpc.prefix})`
+      );
+    }
+    const size = blockSize(prefix);
+    for (let az = 0; az < MAX_AZS; az++) {
+      if (az < azCount) {
+        plan[tier].push({ cidr: formatCidr(next, prefix), az });
+      }
+      next += size;
+    }
+  }
+
+  const needed = next - vpc.base;
+  if (needed > vpcSize) {
+    throw new Error(
+      `Subnets need ${needed} addresses (${MAX_AZS} AZs per tier) but ${vpcCidr} has ${vpcSize}; ` +
+        `use a larger VPC or smaller subnetSizes`
+    );
+  }
+  return plan;
+}
@@ -1,13 +1,20 @@
 import * as aws from "@pulumi/aws";
-import { CommonConfig, DatabaseOutputs, NetworkOutputs } from "../types";
+import * as pulumi from "@pulumi/pulumi";
+import { CommonConfig, DatabaseOutputs, KmsOutputs, NetworkOutputs } from "../types";
+import { createPhysicalName, createPhysicalPath } from "../utils";
 
-export function createTailscale(config: CommonConfig, network: NetworkOutputs, database: DatabaseOutputs) {
+export function createTailscale(config: CommonConfig, network: NetworkOutputs, database: DatabaseOutputs, kms?: KmsOutputs) {
   const { commonTags } = config;
+  const authSecretName = createPhysicalPath(config, "tailscale/auth-key", "pathfinder/tailscale/auth-key");
+  const logGroupName = `/tailscale/${createPhysicalPath(config, "subnet-router", "pathfinder")}`;
+  // Only the database tier is reachable over the tailnet
+  const subnetRoutes = network.databaseSubnetCidrs;
 
   // Tailscale Auth Key Secret
   const tailscaleAuthSecret = new aws.secretsmanager.Secret("tailscale-auth-secret", {
-    name: "pathfinder/tailscale/auth-key",
+    name: authSecretName,
     description: "Tailscale auth key for subnet router",
+    kmsKeyId: kms?.secrets.keyArn,
     tags: {
       ...commonTags,
       Name: "tailscale-auth-secret",
@@ -29,7 +36,7 @@ export function createTailscale(config: CommonConfig, network: NetworkOutputs, d
 
   // IAM Role for Tailscale EC2 instance
   const tailscaleRole = new aws.iam.Role("tailscale-instance-role", {
-    name: "pathfinder-tailscale-instance-role",
+    name: createPhysicalName(config, "tailscale-instance-role", "pathfinder-tailscale-instance-role"),
     assumeRolePolicy: JSON.stringify({
       Version: "2012-10-17",
       Statement: [
@@ -52,7 +59,7 @@ export function createTailscale(config: CommonConfig, network: NetworkOutputs, d
   // IAM Policy for Tailscale instance
   const tailscalePolicy = new aws.iam.RolePolicy("tailscale-instance-policy", {
     role: tailscaleRole.id,
-    policy: JSON.stringify({
+    policy: tailscaleAuthSecret.arn.apply(secretArn => JSON.stringify({
       Version: "2012-10-17",
       Statement: [
         {
@@ -61,7 +68,7 @@ export function createTailscale(config: CommonConfig, network: NetworkOutputs, d
             "secretsmanager:GetSecretValue",
             "secretsmanager:DescribeSecret",
           ],
-          Resource: tailscaleAuthSecret.arn,
+          Resource: secretArn,
         },
         {
           Effect: "Allow",
@@ -85,12 +92,12 @@ export function createTailscale(config: CommonConfig, network: NetworkOutputs, d
           Resource: "*",
         },
       ],
-    }),
+    })),
   });
 
   // Instance Profile for Tailscale EC2 instance
   const tailscaleInstanceProfile = new aws.iam.InstanceProfile("tailscale-instance-profile", {
-    name: "pathfinder-tailscale-instance-profile",
+    name: createPhysicalName(config, "tailscale-instance-profile", "pathfinder-tailscale-instance-profile"),
     role: tailscaleRole.name,
     tags: {
       ...commonTags,
@@ -100,7 +107,7 @@ export function createTailscale(config: CommonConfig, network: NetworkOutputs, d
   });
 
   // User data script for Tailscale setup
-  const userData = `#!/bin/bash
+  const userData = pulumi.interpolate`#!/bin/bash
 set -e
 
 # Update system
@@ -113,13 +120,13 @@ curl -fsSL https://tailscale.com/install.sh | sh
 yum install -y aws-cli jq
 
 # Create tailscale service log group
-aws logs create-log-group --log-group-name /tailscale/pathfinder --region ${config.awsRegion} || true
+aws logs create-log-group --log-group-name ${logGroupName} --region ${config.awsRegion} || true
 
 # Get Tailscale auth key from Secrets Manager
-AUTH_KEY=$(aws secretsmanager get-secret-value --secret-id ${tailscaleAuthSecret.arn} --region ${config.awsRegion} --query SecretString --output text | jq -r .authKey)
+AUTH_KEY=$(aws secretsmanager get-secret-value --secret-id ${authSecretName} --region ${config.awsRegion} --query SecretString --output text | jq -r .authKey)
 
 # Start Tailscale as subnet router
-tailscale up --authkey=$AUTH_KEY --advertise-routes=${network.vpcCidr} --accept-routes --snat-subnet-routes=false
+tailscale up --authkey=$AUTH_KEY --advertise-routes=${subnetRoutes.apply(routes => routes.join(","))} --accept-routes --snat-subnet-routes=false
 
 # Enable IP forwarding
 echo 'net.ipv4.ip_forward = 1' | tee -a /etc/sysctl.conf
@@ -138,7 +145,7 @@ cat > /opt/aws/amazon-cloudwatch-agent/etc/amazon-cloudwatch-agent.json << 'EOF'
         "collect_list": [
           {
             "file_path": "/var/log/tailscaled.log",
-            "log_group_name": "/tailscale/pathfinder",
+            "log_group_name": "${logGroupName}",
             "log_stream_name": "tailscaled"
           }
         ]
@@ -190,7 +197,7 @@ echo "Tailscale subnet router setup completed"
 
   // Tailscale EC2 instance
   const tailscaleInstance = new aws.ec2.Instance("tailscale-subnet-router", {
-    instanceType: "t3.nano", // Small instance for routing
+    instanceType: config.environmentConfig.tailscaleInstanceType,
     ami: aws.ec2.getAmi({
       mostRecent: true,
       owners: ["amazon"],
@@ -206,7 +213,11 @@ echo "Tailscale subnet router setup completed"
     subnetId: network.privateSubnetIds[0], // Deploy in private subnet
     iamInstanceProfile: tailscaleInstanceProfile.name,
     sourceDestCheck: false, // Required for routing
-    userData: Buffer.from(userData).toString('base64'),
+    rootBlockDevice: {
+      encrypted: true,
+      kmsKeyId: kms?.data.keyArn, // Changing the key replaces the router
+    },
+    userData: userData.apply(script => Buffer.from(script).toString('base64')),
     tags: {
       ...commonTags,
       Name: "tailscale-subnet-router",
@@ -217,8 +228,9 @@ echo "Tailscale subnet router setup completed"
 
   // CloudWatch Log Group for Tailscale
   const tailscaleLogGroup = new aws.cloudwatch.LogGroup("tailscale-logs", {
-    name: "/tailscale/pathfinder",
+    name: logGroupName,
     retentionInDays: config.logRetentionDays,
+    kmsKeyId: kms?.logs.keyArn,
     tags: {
       ...commonTags,
       Name: "tailscale-logs",
@@ -228,7 +240,7 @@ echo "Tailscale subnet router setup completed"
 
   // CloudWatch Alarm for Tailscale health
   const tailscaleHealthAlarm = new aws.cloudwatch.MetricAlarm("tailscale-health-alarm", {
-    name: "pathfinder-tailscale-health",
+    name: createPhysicalName(config, "tailscale-health", "pathfinder-tailscale-health"),
     metricName: "StatusCheckFailed",
     namespace: "AWS/EC2",
     statistic: "Maximum",
@@ -249,7 +261,7 @@ echo "Tailscale subnet router setup completed"
   return {
     instanceId: tailscaleInstance.id,
     instancePrivateIp: tailscaleInstance.privateIp,
-    subnetRoutes: [network.vpcCidr],
+    subnetRoutes,
     vpcCidr: network.vpcCidr,
     authSecretArn: tailscaleAuthSecret.arn,
     healthAlarmArn: tailscaleHealthAlarm.arn,
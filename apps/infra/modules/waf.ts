@@ -0,0 +1,185 @@
+import * as aws from "@pulumi/aws";
+import {
+  CommonConfig,
+  KmsOutputs,
+  LoadBalancerOutputs,
+  WafOutputs,
+} from "../types";
+import { createPhysicalName } from "../utils";
+
+// AWS managed rule groups evaluated after the allowlist and rate limit
+const MANAGED_RULE_GROUPS = [
+  {
+    name: "AWSManagedRulesCommonRuleSet",
+    // Request bodies over 8 KB are normal for uploads and server actions;
+    // count them instead of blocking
+    countOnly: ["SizeRestrictions_BODY"],
+  },
+  { name: "AWSManagedRulesKnownBadInputsRuleSet", countOnly: [] },
+  { name: "AWSManagedRulesSQLiRuleSet", countOnly: [] },
+];
+
+export function createWaf(
+  config: CommonConfig,
+  loadBalancer: LoadBalancerOutputs,
+  kms?: KmsOutputs
+): WafOutputs {
+  const { commonTags, securityConfig, networkConfig } = config;
+  const { waf } = securityConfig;
+  const webAclName = createPhysicalName(config, "waf");
+
+  const visibilityConfig = (metricName: string) => ({
+    cloudwatchMetricsEnabled: true,
+    metricName: `${webAclName}-${metricName}`,
+    sampledRequestsEnabled: true,
+  });
+
+  const rules: aws.types.input.wafv2.WebAclRule[] = [];
+
+  // ==========================================
+  // IP ALLOWLIST (OPTIONAL)
+  // ==========================================
+
+  if (waf.ipAllowlist) {
+    const allowlist = new aws.wafv2.IpSet("pathfinder-waf-allowlist", {
+      name: `${webAclName}-allowlist`,
+      description: "Networks allowed to reach the load balancer",
+      scope: "REGIONAL",
+      ipAddressVersion: "IPV4",
+      addresses: securityConfig.allowedCidrBlocks,
+      tags: {
+        ...commonTags,
+        Name: "pathfinder-waf-allowlist",
+        Type: "waf-ip-set",
+      },
+    });
+
+    // IP sets hold one address family, so dual-stack stacks get a second
+    // set for allowedIpv6CidrBlocks
+    const ipv6Allowlist =
+      networkConfig.ipv6 && securityConfig.allowedIpv6CidrBlocks.length > 0
+        ? new aws.wafv2.IpSet("pathfinder-waf-allowlist-ipv6", {
+            name: `${webAclName}-allowlist-ipv6`,
+            description: "IPv6 networks allowed to reach the load balancer",
+            scope: "REGIONAL",
+            ipAddressVersion: "IPV6",
+            addresses: securityConfig.allowedIpv6CidrBlocks,
+            tags: {
+              ...commonTags,
+              Name: "pathfinder-waf-allowlist-ipv6",
+              Type: "waf-ip-set",
+            },
+          })
+        : undefined;
+
+    const allowed = { ipSetReferenceStatement: { arn: allowlist.arn } };
+    rules.push({
+      name: "block-outside-allowlist",
+      priority: rules.length,
+      action: { block: {} },
+      statement: {
+        notStatement: {
+          statements: [
+            ipv6Allowlist
+              ? {
+                  orStatement: {
+                    statements: [
+                      allowed,
+                      { ipSetReferenceStatement: { arn: ipv6Allowlist.arn } },
+                    ],
+                  },
+                }
+              : allowed,
+          ],
+        },
+      },
+      visibilityConfig: visibilityConfig("allowlist"),
+    });
+  }
+
+  // ==========================================
+  // RATE LIMIT AND MANAGED RULES
+  // ==========================================
+
+  rules.push({
+    name: "rate-limit-per-ip",
+    priority: rules.length,
+    action: { block: {} },
+    statement: {
+      rateBasedStatement: {
+        limit: waf.rateLimit,
+        aggregateKeyType: "IP",
+      },
+    },
+    visibilityConfig: visibilityConfig("rate-limit"),
+  });
+
+  for (const group of MANAGED_RULE_GROUPS) {
+    rules.push({
+      name: group.name,
+      priority: rules.length,
+      overrideAction: { none: {} },
+      statement: {
+        managedRuleGroupStatement: {
+          vendorName: "AWS",
+          name: group.name,
+          ruleActionOverrides: group.countOnly.map((name) => ({
+            name,
+            actionToUse: { count: {} },
+          })),
+        },
+      },
+      visibilityConfig: visibilityConfig(group.name),
+    });
+  }
+
+  const webAcl = new aws.wafv2.WebAcl("pathfinder-waf", {
+    name: webAclName,
+    description: "Web application firewall for the Pathfinder load balancer",
+    scope: "REGIONAL",
+    defaultAction: { allow: {} },
+    rules,
+    visibilityConfig: visibilityConfig("web-acl"),
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-waf",
+      Type: "waf-web-acl",
+    },
+  });
+
+  new aws.wafv2.WebAclAssociation("pathfinder-waf-association", {
+    resourceArn: loadBalancer.albArn,
+    webAclArn: webAcl.arn,
+  });
+
+  // ==========================================
+  // LOGGING
+  // ==========================================
+
+  // WAF only delivers to log groups named aws-waf-logs-*
+  const logGroup = new aws.cloudwatch.LogGroup("pathfinder-waf-logs", {
+    name: `aws-waf-logs-${webAclName}`,
+    retentionInDays: waf.logRetentionDays,
+    kmsKeyId: kms?.logs.keyArn,
+    tags: {
+      ...commonTags,
+      Name: "pathfinder-waf-logs",
+      Type: "log-group",
+    },
+  });
+
+  new aws.wafv2.WebAclLoggingConfiguration("pathfinder-waf-logging", {
+    resourceArn: webAcl.arn,
+    logDestinationConfigs: [logGroup.arn],
+    // Keep credentials out of the logs
+    redactedFields: [
+      { singleHeader: { name: "authorization" } },
+      { singleHeader: { name: "cookie" } },
+    ],
+  });
+
+  return {
+    webAclArn: webAcl.arn,
+    logGroupName: logGroup.name,
+  };
+}
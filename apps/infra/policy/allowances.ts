@@ -0,0 +1,56 @@
+import * as allowancesFile from "./allowances.json";
+
+// ==========================================
+// PER-STACK ALLOWANCES
+// ==========================================
+
+export interface Exemption {
+  /** Policy name, e.g. "no-world-open-ports" */
+  policy: string;
+  /** Logical resource name as declared in the Pulumi program */
+  resource: string;
+  /** Why the exception is acceptable; required so reviews can judge it */
+  reason: string;
+}
+
+export interface StackAllowances {
+  /** Ports (besides 80 and 443) that may be open to the internet */
+  openPorts: number[];
+  exemptions: Exemption[];
+}
+
+// Entries under "*" apply to every stack; named entries add to them
+const allowances = allowancesFile as Record<string, Partial<StackAllowances>>;
+
+for (const [stack, entry] of Object.entries(allowances)) {
+  for (const exemption of entry.exemptions ?? []) {
+    if (!exemption.policy || !exemption.resource || !exemption.reason) {
+      throw new Error(
+        `allowances.json: every "${stack}" exemption needs policy, resource and reason`
+      );
+    }
+  }
+}
+
+/**
+ * The stack a resource belongs to, from its URN
+ * (urn:pulumi:<stack>::<project>::<type>::<name>)
+ */
+export function stackFromUrn(urn: string): string {
+  return urn.split("::")[0].replace(/^urn:pulumi:/, "");
+}
+
+export function allowancesFor(stack: string): StackAllowances {
+  const shared = allowances["*"] ?? {};
+  const own = allowances[stack] ?? {};
+  return {
+    openPorts: [...(shared.openPorts ?? []), ...(own.openPorts ?? [])],
+    exemptions: [...(shared.exemptions ?? []), ...(own.exemptions ?? [])],
+  };
+}
+
+export function isExempt(policy: string, urn: string, name: string): boolean {
+  return allowancesFor(stackFromUrn(urn)).exemptions.some(
+    (exemption) => exemption.policy === policy && exemption.resource === name
+  );
+}
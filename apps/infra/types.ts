@@ -1,4 +1,5 @@
 import * as pulumi from "@pulumi/pulumi";
+import type { InterfaceEndpoint } from "./modules/endpoint-catalog";
 
 // ==========================================
 // COMMON CONFIGURATION TYPES
@@ -11,6 +12,8 @@ export interface ResourceTags {
 export interface CommonConfig {
   projectName: string;
   environment: string;
+  /** Keep the pre-multi-stack fixed physical names (migration only) */
+  legacyResourceNames: boolean;
   region: string;
   awsRegion: string;
   nodeEnv: string;
@@ -18,7 +21,10 @@ export interface CommonConfig {
   domainName?: string;
   githubOrg: string;
   githubRepo: string;
+  /** Existing account-wide GitHub OIDC provider to reuse instead of creating one */
+  githubOidcProviderArn?: string;
   commonTags: ResourceTags;
+  databaseConfig: DatabaseConfig;
   networkConfig: NetworkConfig;
   securityConfig: SecurityConfig;
   dbInstanceClass: string;
@@ -27,6 +33,8 @@ export interface CommonConfig {
   dbBackupRetentionPeriod: number;
   dbDeletionProtection: boolean;
   logRetentionDays: number;
+  environmentConfig: EnvironmentConfig;
+  features: FeatureFlags;
   // Optional feature configurations
   tailscale?: {
     apiKey: pulumi.Output<string>;
@@ -60,23 +68,145 @@ export interface EnvironmentConfig {
   ecsDesiredCount: number;
   ecsMinCapacity: number;
   ecsMaxCapacity: number;
+  ecsTargetCpuUtilization: number;
   logRetentionDays: number;
   codeBuildInstanceType: string;
   codeBuildTimeout: number;
+  tailscaleInstanceType: string;
+}
+
+export type NatMode = "single" | "perAz" | "instance" | "none";
+
+export interface SubnetConfig {
+  cidr: string;
+  /** Index into the region's available AZs */
+  az: number;
+}
+
+export interface SubnetLayout {
+  public: SubnetConfig[];
+  private: SubnetConfig[];
+  /** Isolated tier for the database; without it the database uses private */
+  database?: SubnetConfig[];
+}
+
+export type DatabaseEngine = "rds" | "aurora-serverless-v2";
+
+/** Logging and audit settings for the parameter group (database-parameters.ts) */
+export type DatabaseParameterProfile =
+  "verbose-dev" | "balanced" | "audit-prod";
+
+/**
+ * What a new database is built from instead of starting empty: a snapshot,
+ * or another database (instance for rds, cluster for Aurora) at a point in
+ * time ("latest" or an ISO 8601 timestamp)
+ */
+export type DatabaseRestoreSource =
+  { snapshotId: string } | { sourceInstance: string; pointInTime: string };
+
+export interface DatabaseConfig {
+  engine: DatabaseEngine;
+  /** PostgreSQL major.minor, for both engines */
+  engineVersion: string;
+  /** RDS read replica; defaults to prod only */
+  readReplica?: boolean;
+  parameterProfile: DatabaseParameterProfile;
+  /** Aurora Serverless v2 capacity (ACUs) and reader count */
+  serverless: {
+    minCapacity: number;
+    maxCapacity: number;
+    readers: number;
+    autoPauseMinutes: number;
+  };
+  /** RDS Proxy for application connections */
+  proxy: {
+    enabled: boolean;
+    maxConnectionsPercent: number;
+    idleClientTimeoutMinutes: number;
+  };
+  /** Secrets Manager rotation of the master password */
+  rotation: {
+    enabled: boolean;
+    intervalDays: number;
+  };
+  /** Only read when the database is created */
+  restoreFrom?: DatabaseRestoreSource;
+}
+
+export interface FlowLogsConfig {
+  enabled: boolean;
+  /** S3 (Parquet, queried with Athena) or CloudWatch Logs (Logs Insights) */
+  destination: "s3" | "cloudwatch";
+  retentionDays: number;
+}
+
+/** A network reachable over the Transit Gateway or the peering connection */
+export interface PeerConfig {
+  cidr: string;
+  via: "transitGateway" | "vpcPeering";
+  /** Ports the peer may open on the ECS tasks or the database */
+  allow: { to: "ecs" | "database"; port: number }[];
+}
+
+export interface PeeringConfig {
+  /** Existing Transit Gateway to attach the VPC to */
+  transitGatewayId?: string;
+  /** VPC to peer with; ownerId and region default to this stack's */
+  peerVpc?: { vpcId: string; ownerId?: string; region?: string };
+  peers: PeerConfig[];
+}
+
+/** IDs of a VPC managed outside the stack (see lookupExistingVpc) */
+export interface ExistingVpcConfig {
+  vpcId: string;
+  publicSubnetIds: string[];
+  privateSubnetIds: string[];
+  databaseSubnetIds?: string[];
+  routeTableIds: {
+    public: string;
+    private: string[];
+    database?: string;
+  };
+  /** Whether to add the S3 gateway and the interface endpoints */
+  endpoints: { s3: boolean; interface: boolean };
 }
 
 export interface NetworkConfig {
   vpcCidr: string;
-  subnets: {
-    public: Array<{ cidr: string; az: number }>;
-    private: Array<{ cidr: string; az: number }>;
-  };
+  natMode: NatMode;
+  natInstanceType: string;
+  interfaceEndpoints: InterfaceEndpoint[];
+  subnets: SubnetLayout;
+  flowLogs: FlowLogsConfig;
+  /** Use this VPC instead of creating one; subnets and NAT settings are ignored */
+  existingVpc?: ExistingVpcConfig;
+  peering?: PeeringConfig;
+  /** Dual-stack VPC, subnets, security groups and ALB */
+  ipv6: boolean;
+}
+
+export interface WafConfig {
+  /** Requests per client IP per 5 minutes */
+  rateLimit: number;
+  /** Only allow allowedCidrBlocks through the WebACL */
+  ipAllowlist: boolean;
+  logRetentionDays: number;
+}
+
+export interface KmsConfig {
+  /** Customer-managed keys instead of the AWS-managed defaults */
+  enabled: boolean;
+  /** Days a scheduled key deletion can still be cancelled */
+  deletionWindowDays: number;
 }
 
 export interface SecurityConfig {
   allowedCidrBlocks: string[];
+  allowedIpv6CidrBlocks: string[];
   sslCertificateArn?: string;
   enableWaf: boolean;
+  waf: WafConfig;
+  kms: KmsConfig;
 }
 
 // ==========================================
@@ -86,10 +216,21 @@ export interface SecurityConfig {
 export interface NetworkOutputs {
   vpcId: pulumi.Output<string>;
   vpcCidr: pulumi.Output<string>;
-  internetGatewayId: pulumi.Output<string>;
-  natGatewayId: pulumi.Output<string>;
+  /** Amazon-provided /56 when networking.ipv6 is on */
+  vpcIpv6Cidr?: pulumi.Output<string>;
+  /** Undefined for an existing VPC without one (egress through a TGW) */
+  internetGatewayId: pulumi.Output<string | undefined>;
+  egressOnlyInternetGatewayId?: pulumi.Output<string>;
+  natGatewayIds: pulumi.Output<string>[];
+  natInstanceId?: pulumi.Output<string>;
+  /** ENIs that carry NAT egress, for flow log queries */
+  natNetworkInterfaceIds: pulumi.Output<string>[];
   publicSubnetIds: pulumi.Output<string>[];
   privateSubnetIds: pulumi.Output<string>[];
+  /** The first private subnet in each AZ, for endpoints and attachments */
+  zonalPrivateSubnetIds: pulumi.Output<string[]>;
+  databaseSubnetIds: pulumi.Output<string>[];
+  databaseSubnetCidrs: pulumi.Output<string[]>;
   availabilityZones: pulumi.Output<string[]>;
   securityGroups: {
     alb: pulumi.Output<string>;
@@ -97,18 +238,42 @@ export interface NetworkOutputs {
     database: pulumi.Output<string>;
     codeBuild: pulumi.Output<string>;
     tailscale: pulumi.Output<string>;
+    vpcEndpoint: pulumi.Output<string>;
+    /** Only when database.proxy is enabled */
+    databaseProxy?: pulumi.Output<string>;
+    /** Database rotation and role provisioning Lambdas */
+    databaseFunctions: pulumi.Output<string>;
   };
+  /** Who can reach what, generated from the security flows */
+  connectivity: ConnectivityReport;
   routeTableIds: {
     public: pulumi.Output<string>;
-    private: pulumi.Output<string>;
-  };
-  vpcEndpoints: {
-    s3: pulumi.Output<string>;
-    ecrApi: pulumi.Output<string>;
-    ecrDkr: pulumi.Output<string>;
-    codebuild: pulumi.Output<string>;
-    logs: pulumi.Output<string>;
+    private: pulumi.Output<string>[];
+    database?: pulumi.Output<string>;
   };
+  /** Endpoint IDs: "s3" (gateway) plus each configured interface endpoint */
+  vpcEndpoints: Record<string, pulumi.Output<string>>;
+}
+
+export interface PeeringOutputs {
+  transitGatewayAttachmentId?: pulumi.Output<string>;
+  vpcPeeringConnectionId?: pulumi.Output<string>;
+  /** Whether the peer side still has to accept the peering connection */
+  peeringAcceptanceRequired?: boolean;
+}
+
+export interface FlowLogsOutputs {
+  flowLogId: pulumi.Output<string>;
+  destination: FlowLogsConfig["destination"];
+  /** S3 destination */
+  bucketName?: pulumi.Output<string>;
+  athenaWorkgroup?: pulumi.Output<string>;
+  glueDatabase?: pulumi.Output<string>;
+  glueTable?: pulumi.Output<string>;
+  /** CloudWatch destination */
+  logGroupName?: pulumi.Output<string>;
+  /** Names of the saved Athena / Logs Insights queries */
+  savedQueries: string[];
 }
 
 export interface DatabaseOutputs {
@@ -117,19 +282,52 @@ export interface DatabaseOutputs {
   port: pulumi.Output<number>;
   dbName: pulumi.Output<string>;
   username: pulumi.Output<string>;
+  /** Initial password; the secret holds the current one after rotation */
   password: pulumi.Output<string>;
+  /** RDS JSON secret: engine, host, port, username, password, dbname */
   secretArn: pulumi.Output<string>;
   secretId: pulumi.Output<string>;
+  /** Schema owner for migrations (DDL); the build reads this one */
+  migrationSecretArn: pulumi.Output<string>;
+  /** DML-only role for the running applications */
+  appSecretArn: pulumi.Output<string>;
+  /** DATABASE_URL with the initial password */
   connectionString: pulumi.Output<string>;
+  /** RDS Proxy host:port, when enabled; applications connect here */
+  proxyEndpoint?: pulumi.Output<string>;
+  proxyAddress?: pulumi.Output<string>;
   readReplicaEndpoint?: pulumi.Output<string>;
+  /** DATABASE_READ_URL secret, when the stack has a read replica */
+  readUrlSecretArn?: pulumi.Output<string>;
+  engineUpgrade: DatabaseUpgradeStatus;
+  /** Storage key, fixed when the database was created */
+  storageKmsKeyId: pulumi.Output<string>;
+}
+
+export interface DatabaseUpgradeStatus {
+  /** database.engineVersion */
+  targetVersion: string;
+  runningVersion: pulumi.Output<string>;
+  /** How a major version change is applied, and why */
+  strategy: "blue-green" | "in-place";
+  reason: string;
+  status: pulumi.Output<"up-to-date" | "upgrade-pending">;
 }
 
-export interface ContainerOutputs {
+export interface ClusterOutputs {
   clusterName: pulumi.Output<string>;
   clusterArn: pulumi.Output<string>;
+}
+
+export interface ContainerOutputs extends ClusterOutputs {
+  appName: string;
+  containerName: string;
   serviceName: pulumi.Output<string>;
+  repositoryName: pulumi.Output<string>;
   repositoryUrl: pulumi.Output<string>;
   repositoryArn: pulumi.Output<string>;
+  /** KMS key of the repository, fixed when it was created; none for AES256 */
+  repositoryKmsKey: pulumi.Output<string | undefined>;
   taskDefinitionArn: pulumi.Output<string>;
   logGroupName: pulumi.Output<string>;
   logGroupArn: pulumi.Output<string>;
@@ -141,12 +339,38 @@ export interface LoadBalancerOutputs {
   albArn: pulumi.Output<string>;
   albDnsName: pulumi.Output<string>;
   albZoneId: pulumi.Output<string>;
+  /** Listener that forwards traffic (HTTPS when SSL is enabled) */
+  listenerArn: pulumi.Output<string>;
+  /** Default target group, owned by the application with routing.default */
   targetGroupArn: pulumi.Output<string>;
   applicationUrl: pulumi.Output<string>;
   healthCheckUrl: pulumi.Output<string>;
   certificateArn?: string;
 }
 
+export type KmsKeyDomain = "data" | "logs" | "secrets" | "artifacts";
+
+export interface KmsKey {
+  keyArn: pulumi.Output<string>;
+  aliasName: pulumi.Output<string>;
+}
+
+export interface KmsOutputs {
+  /** RDS and Aurora storage, Performance Insights and EBS volumes */
+  data: KmsKey;
+  /** CloudWatch log groups */
+  logs: KmsKey;
+  /** Secrets Manager secrets */
+  secrets: KmsKey;
+  /** ECR repositories */
+  artifacts: KmsKey;
+}
+
+export interface WafOutputs {
+  webAclArn: pulumi.Output<string>;
+  logGroupName: pulumi.Output<string>;
+}
+
 export interface GithubOidcOutputs {
   providerArn: pulumi.Output<string>;
   providerUrl: pulumi.Output<string>;
@@ -156,8 +380,6 @@ export interface GithubOidcOutputs {
 }
 
 export interface BuildSystemOutputs {
-  appProjectName: pulumi.Output<string>;
-  appProjectArn: pulumi.Output<string>;
   codebuildRoleArn: pulumi.Output<string>;
   buildInstanceType: string;
   buildTimeout: number;
@@ -172,7 +394,7 @@ export interface ApplicationDeployment {
   appName: string;
   contextPath: string;
   buildCommands: {
-    deployWithMigrations: string;
+    deployWithMigrations: pulumi.Output<string>;
   };
   containerImage: pulumi.Output<string>;
   healthCheckPath: string;
@@ -183,6 +405,15 @@ export interface ApplicationDeployment {
     targetCpuPercent: number;
   };
   buildProject: pulumi.Output<string>;
+  buildProjectArn: pulumi.Output<string>;
+}
+
+export interface ApplicationOutputs {
+  name: string;
+  container: ContainerOutputs;
+  targetGroupArn?: pulumi.Output<string>;
+  scaling?: ScalingOutputs;
+  deployment?: ApplicationDeployment;
 }
 
 export interface TailscaleOutputs {
@@ -201,11 +432,11 @@ export interface TailscaleOutputs {
 
 export interface MonitoringOutputs {
   applicationDashboardUrl: pulumi.Output<string>;
-  infrastructureDashboardUrl: pulumi.Output<string>;
+  infrastructureDashboardUrl?: pulumi.Output<string>;
   applicationLogGroup: pulumi.Output<string>;
   logsUrl: pulumi.Output<string>;
   metricsNamespace: string;
-  customMetricsFunctionArn: pulumi.Output<string>;
+  customMetricsFunctionArn?: pulumi.Output<string>;
   metricsUrl: pulumi.Output<string>;
   highErrorRateAlarmArn: pulumi.Output<string>;
   databaseConnectionAlarmArn: pulumi.Output<string>;
@@ -227,22 +458,70 @@ export interface ScalingOutputs {
 // ==========================================
 
 export interface ApplicationConfig {
+  /** Short name used in logical and physical resource names, e.g. "web" */
   name: string;
   contextPath: string;
+  /** Buildspec path relative to the repository root */
+  buildspec: string;
   requiresDatabaseAccess: boolean;
   dependsOnMigrations: boolean;
   buildCommand?: string;
   healthCheckPath: string;
   environmentVariables: Record<string, string>;
-  resourceRequirements: {
+  /** How the shared ALB reaches the app; omit for workers without HTTP ingress */
+  routing?: {
+    /** Receives every request no listener rule matches (exactly one app) */
+    default?: boolean;
+    /** Listener rule priority, required for non-default apps */
+    priority?: number;
+    pathPatterns?: string[];
+    hostHeaders?: string[];
+  };
+  /**
+   * Secrets injected into the container's environment, keyed by variable
+   * name. DATABASE_URL is added automatically when requiresDatabaseAccess.
+   */
+  secrets?: Record<string, ApplicationSecret>;
+  /** Task size; defaults to the stack's container settings */
+  resourceRequirements?: {
     cpu: number;
     memory: number;
   };
-  scaling: {
+  /** Scaling bounds; default to the stack's scaling settings */
+  scaling?: {
     minInstances: number;
     maxInstances: number;
     targetCpuPercent: number;
   };
+  /**
+   * Alias this app's resources to the logical names used before
+   * multi-application support, so existing stacks adopt them in place
+   */
+  legacyAliases?: boolean;
+}
+
+/**
+ * Source of an application secret: an existing Secrets Manager secret
+ * (optionally one JSON key of it), an SSM parameter, or a secret that
+ * Pulumi creates from a generated password or a value in the program
+ */
+export type ApplicationSecret =
+  | { secretArn: string; jsonKey?: string }
+  | { parameter: string }
+  | { generate: { length?: number; special?: boolean } }
+  | { value: pulumi.Input<string> };
+
+export interface ApplicationSecretsOutputs {
+  /** Entries for the task definition's `secrets` block */
+  containerSecrets: pulumi.Output<{ name: string; valueFrom: string }[]>;
+  /** Secrets Manager secrets the execution role may read */
+  secretArns: pulumi.Output<string>[];
+  /** SSM parameters the execution role may read */
+  parameterArns: pulumi.Output<string>[];
+  /** Plain variables telling the app where to re-read its secrets */
+  containerEnvironment: pulumi.Output<{ name: string; value: string }[]>;
+  /** Secrets the app re-reads at runtime with its task role */
+  taskSecretArns: pulumi.Output<string>[];
 }
 
 // Duplicate ResourceTags interface removed - using the one at the top of the file
@@ -307,14 +586,37 @@ export interface AlarmConfig extends MetricConfig {
 // SECURITY AND ACCESS TYPES
 // ==========================================
 
-export interface SecurityGroupRule {
-  type: "ingress" | "egress";
-  fromPort: number;
-  toPort: number;
-  protocol: string;
-  cidrBlocks?: string[];
-  securityGroups?: pulumi.Output<string>[];
+export type SecurityGroupName = keyof NetworkOutputs["securityGroups"];
+
+/** An allowed TCP connection into a Pathfinder security group */
+export interface SecurityFlow {
+  /** Another Pathfinder security group, or CIDR blocks with a display label */
+  from:
+    | { group: SecurityGroupName }
+    | { cidrs: string[]; ipv6Cidrs?: string[]; label: string };
+  to: SecurityGroupName;
+  port: number;
   description: string;
+  /**
+   * Logical name of a standalone SecurityGroupRule. Flows without one are
+   * inline ingress on the target group.
+   */
+  rule?: string;
+}
+
+/** A security flow in plain form, as exported in the connectivity report */
+export interface ConnectivityEntry {
+  from: string;
+  to: SecurityGroupName;
+  port: number;
+  protocol: "tcp";
+  description: string;
+}
+
+export interface ConnectivityReport {
+  entries: ConnectivityEntry[];
+  /** Sources by destination, with the open ports in each cell */
+  markdown: string;
 }
 
 export interface IAMPolicyDocument {
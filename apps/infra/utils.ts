@@ -1,3 +1,5 @@
+import * as pulumi from "@pulumi/pulumi";
+import { ApplicationConfig, CommonConfig } from "./types";
 
 // ==========================================
 // COMMON INFRASTRUCTURE UTILITIES
@@ -38,6 +40,93 @@ export function createResourceName(prefix: string, environment: string, suffix?:
   return parts.join('-');
 }
 
+/**
+ * Physical name for a stack-scoped resource: <project>-<stack>-<suffix>.
+ * Stacks created before per-stack naming keep their fixed legacy names
+ * (legacyResourceNames) so existing resources are not replaced.
+ */
+export function createPhysicalName(
+  config: Pick<CommonConfig, "projectName" | "environment" | "legacyResourceNames">,
+  suffix: string,
+  legacyName?: string
+): string {
+  return config.legacyResourceNames && legacyName !== undefined
+    ? legacyName
+    : createResourceName(config.projectName, config.environment, suffix);
+}
+
+/**
+ * Path-style name for secrets and log groups: <project>/<stack>/<path>
+ */
+export function createPhysicalPath(
+  config: Pick<CommonConfig, "projectName" | "environment" | "legacyResourceNames">,
+  subPath: string,
+  legacyPath?: string
+): string {
+  return config.legacyResourceNames && legacyPath !== undefined
+    ? legacyPath
+    : [config.projectName, config.environment, subPath].join('/');
+}
+
+/**
+ * Physical name for an application's resource. The app flagged with
+ * legacyAliases keeps the names it had in the single-application layout.
+ */
+export function createApplicationName(
+  config: Pick<CommonConfig, "projectName" | "environment" | "legacyResourceNames">,
+  app: ApplicationConfig,
+  suffix: string,
+  legacy: { suffix: string; name: string }
+): string {
+  return app.legacyAliases
+    ? createPhysicalName(config, legacy.suffix, legacy.name)
+    : createPhysicalName(config, `${app.name}-${suffix}`);
+}
+
+/**
+ * Physical path (log groups, secrets) for an application's resource
+ */
+export function createApplicationPath(
+  config: Pick<CommonConfig, "projectName" | "environment" | "legacyResourceNames">,
+  app: ApplicationConfig,
+  subPath: string,
+  legacy: { subPath: string; path: string }
+): string {
+  return app.legacyAliases
+    ? createPhysicalPath(config, legacy.subPath, legacy.path)
+    : createPhysicalPath(config, `${app.name}/${subPath}`);
+}
+
+/**
+ * Resource options aliasing a legacy app's resource to its original logical name
+ */
+export function legacyAliasOptions(
+  app: ApplicationConfig,
+  legacyName: string
+): pulumi.CustomResourceOptions {
+  return app.legacyAliases ? { aliases: [{ name: legacyName }] } : {};
+}
+
+/**
+ * Task size and scaling bounds for an application, falling back to the
+ * stack's container and scaling settings
+ */
+export function resolveApplicationSizing(config: Pick<CommonConfig, "environmentConfig">, app: ApplicationConfig) {
+  const { environmentConfig } = config;
+  const minInstances = app.scaling?.minInstances ?? environmentConfig.ecsMinCapacity;
+  const maxInstances = app.scaling?.maxInstances ?? environmentConfig.ecsMaxCapacity;
+  return {
+    cpu: app.resourceRequirements?.cpu ?? environmentConfig.ecsCpu,
+    memory: app.resourceRequirements?.memory ?? environmentConfig.ecsMemory,
+    desiredCount: app.scaling
+      ? app.scaling.minInstances
+      : environmentConfig.ecsDesiredCount,
+    minInstances,
+    maxInstances,
+    targetCpuPercent: app.scaling?.targetCpuPercent ?? environmentConfig.ecsTargetCpuUtilization,
+  };
+}
+
 /**
  * Validate environment configuration
  */
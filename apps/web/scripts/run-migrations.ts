@@ -4,6 +4,10 @@ import { env } from "../src/env";
 
 async function runMigrations() {
   console.log("🚀 Starting database migrations...");
+  if (!env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL is not set");
+    process.exit(1);
+  }
   console.log(
     `🔗 Database URL: ${env.DATABASE_URL.replace(/:[^@]+@/, ":***@")}`
   ); // Hide password
@@ -19,7 +19,8 @@ export async function GET() {
     const result = {
       status: "success",
       env: {
-        DATABASE_URL: env.DATABASE_URL.replace(/:[^@]+@/, ":***@"), // Redacted
+        DATABASE_URL: env.DATABASE_URL?.replace(/:[^@]+@/, ":***@"), // Redacted
+        DATABASE_SECRET_ARN: env.DATABASE_SECRET_ARN,
         NODE_ENV: env.NODE_ENV,
       },
       raw: {
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+
+// Liveness endpoint for the ALB target group and ECS container health checks
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({ status: "ok" });
+}
@@ -1,26 +1,260 @@
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
 import { PrismaPg } from "@prisma/adapter-pg";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PoolConfig } from "pg";
 import { env } from "../env";
 
-// Create the adapter with connection string and SSL config
-const adapter = new PrismaPg({
-  connectionString: env.DATABASE_URL,
-  ssl: env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
-});
+// Standard RDS secret structure, kept up to date by the rotation Lambda
+interface DatabaseSecret {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  dbname: string;
+}
 
-// Create the Prisma client with the adapter
-const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined;
-};
+const ssl =
+  env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false;
+
+// An empty or binary secret has no SecretString
+function parseSecret(
+  value: string | undefined,
+  source: string
+): DatabaseSecret {
+  if (!value) {
+    throw new Error(`${source} has no JSON secret string`);
+  }
+  const secret = JSON.parse(value) as Partial<DatabaseSecret>;
+  if (!secret.username || !secret.password) {
+    throw new Error(`${source} is missing the username or password`);
+  }
+  return secret as DatabaseSecret;
+}
+
+// Only set with DATABASE_SECRET; a refresh replaces the secret in place
+const credentials: { secret: DatabaseSecret } | undefined = env.DATABASE_SECRET
+  ? { secret: parseSecret(env.DATABASE_SECRET, "DATABASE_SECRET") }
+  : undefined;
+const refresh: { pending?: Promise<void> } = {};
+
+// Re-read the secret after a rotation; concurrent failures share one request
+function refreshCredentials(): Promise<void> {
+  refresh.pending ??= new SecretsManagerClient({})
+    .send(new GetSecretValueCommand({ SecretId: env.DATABASE_SECRET_ARN }))
+    .then(({ SecretString }) => {
+      const secret = parseSecret(
+        SecretString,
+        `Secret ${env.DATABASE_SECRET_ARN}`
+      );
+      if (credentials) {
+        credentials.secret = secret;
+      }
+    })
+    .finally(() => {
+      refresh.pending = undefined;
+    });
+  return refresh.pending;
+}
+
+function poolConfig(): PoolConfig {
+  if (credentials) {
+    const { secret } = credentials;
+    return {
+      host: env.DATABASE_HOST ?? secret.host,
+      port: Number(secret.port),
+      user: secret.username,
+      database: secret.dbname,
+      // Looked up for every new connection, so a refreshed secret applies
+      // without recreating the pool; open connections stay authenticated
+      password: () => credentials.secret.password,
+      ssl,
+    };
+  }
+  if (!env.DATABASE_URL) {
+    throw new Error("Set DATABASE_URL or DATABASE_SECRET");
+  }
+  return { connectionString: env.DATABASE_URL, ssl };
+}
+
+// The replica has the primary's roles, so it takes the same (rotating)
+// credentials unless DATABASE_READ_URL carries its own
+function replicaPoolConfig(): PoolConfig | undefined {
+  if (!env.DATABASE_READ_URL) {
+    return undefined;
+  }
+  const url = new URL(env.DATABASE_READ_URL);
+  if (credentials && !url.username) {
+    const { secret } = credentials;
+    return {
+      host: url.hostname,
+      port: Number(url.port || 5432),
+      user: secret.username,
+      database: url.pathname.slice(1) || secret.dbname,
+      password: () => credentials.secret.password,
+      ssl,
+    };
+  }
+  return { connectionString: env.DATABASE_READ_URL, ssl };
+}
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    adapter,
+const isAuthenticationFailure = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P1000";
+
+function connect(config: PoolConfig) {
+  const client = new PrismaClient({
+    adapter: new PrismaPg(config),
     log:
       env.NODE_ENV === "development" ? ["query", "error", "warn"] : ["error"],
   });
 
+  // After a rotation, new connections fail until the secret is re-read;
+  // refresh it and retry the operation once
+  return client.$extends({
+    query: {
+      async $allOperations({ args, query }) {
+        try {
+          return await query(args);
+        } catch (error) {
+          if (!env.DATABASE_SECRET_ARN || !isAuthenticationFailure(error)) {
+            throw error;
+          }
+          await refreshCredentials();
+          return query(args);
+        }
+      },
+    },
+  });
+}
+
+type Client = ReturnType<typeof connect>;
+
+// ==========================================
+// READ REPLICA ROUTING
+// ==========================================
+
+// Replica lag is checked in the background at most this often
+const LAG_CHECK_INTERVAL_MS = 10_000;
+
+// Seconds behind the primary; 0 once everything received is replayed, so an
+// idle primary does not look like lag. Where the WAL functions return NULL
+// (Aurora readers, or a URL pointing at a primary) the lag counts as 0.
+const replicaLag = Prisma.sql`
+  SELECT (CASE
+    WHEN pg_last_wal_receive_lsn() = pg_last_wal_replay_lsn() THEN 0
+    ELSE EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp())
+  END)::float8 AS lag`;
+
+const replicaState: {
+  current: boolean;
+  checkedAt: number;
+  checking?: Promise<void>;
+} = { current: false, checkedAt: 0 };
+
+// Answers from the last check and starts the next one when it is due.
+// Reads stay on the primary until the first check succeeds.
+function replicaIsCurrent(replica: Client): boolean {
+  if (
+    !replicaState.checking &&
+    Date.now() - replicaState.checkedAt > LAG_CHECK_INTERVAL_MS
+  ) {
+    replicaState.checking = replica
+      .$queryRaw<{ lag: number | null }[]>(replicaLag)
+      .then(([row]) => {
+        replicaState.current =
+          (row?.lag ?? 0) <= env.DATABASE_READ_MAX_LAG_SECONDS;
+      })
+      .catch((error: unknown) => {
+        console.error("Read replica check failed, using the primary:", error);
+        replicaState.current = false;
+      })
+      .finally(() => {
+        replicaState.checkedAt = Date.now();
+        replicaState.checking = undefined;
+      });
+  }
+  return replicaState.current;
+}
+
+type ReadDelegate = Record<
+  "findMany" | "count",
+  (args: unknown) => Promise<unknown>
+>;
+
+// Prisma passes the model name ("Todo"); the client exposes it as "todo"
+const delegateFor = (client: Client, model: string) =>
+  client[
+    (model.charAt(0).toLowerCase() + model.slice(1)) as keyof Client
+  ] as unknown as ReadDelegate;
+
+// Set while a $transaction runs, so its reads see its own writes
+const transactionScope = new AsyncLocalStorage<true>();
+
+// Every query of a transaction, interactive or batched, runs inside its scope
+function scopeTransactions<T extends object>(client: T): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (property !== "$transaction" || typeof value !== "function") {
+        return value;
+      }
+      return (...args: unknown[]) =>
+        transactionScope.run(true, () => value.apply(target, args));
+    },
+  });
+}
+
+function createPrismaClient() {
+  const primary = connect(poolConfig());
+  const replicaConfig = replicaPoolConfig();
+  const replica = replicaConfig ? connect(replicaConfig) : undefined;
+
+  // The replica while it keeps up and no transaction is running
+  const readClient = () =>
+    replica && !transactionScope.getStore() && replicaIsCurrent(replica)
+      ? replica
+      : undefined;
+
+  // findMany and count go to the replica while it keeps up; everything
+  // else, reads inside transactions and every read without a current
+  // replica use the primary
+  return scopeTransactions(
+    primary.$extends({
+      query: {
+        $allModels: {
+          findMany({ model, args, query }) {
+            const client = readClient();
+            return client
+              ? (delegateFor(client, model).findMany(args) as ReturnType<
+                  typeof query
+                >)
+              : query(args);
+          },
+          count({ model, args, query }) {
+            const client = readClient();
+            return client
+              ? (delegateFor(client, model).count(args) as ReturnType<
+                  typeof query
+                >)
+              : query(args);
+          },
+        },
+      },
+    })
+  );
+}
+
+// Create the Prisma client once per process
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined;
+};
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
+
 if (env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
 // Export the types from Prisma client
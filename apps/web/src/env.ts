@@ -3,7 +3,19 @@ import { z } from "zod";
 
 export const env = createEnv({
   server: {
-    DATABASE_URL: z.string().url(),
+    // Local development and builds; ECS tasks get DATABASE_SECRET instead
+    DATABASE_URL: z.string().url().optional(),
+    // RDS JSON secret injected by ECS, and its ARN for re-reading it after
+    // a password rotation
+    DATABASE_SECRET: z.string().optional(),
+    DATABASE_SECRET_ARN: z.string().optional(),
+    // RDS Proxy host that replaces the secret's host
+    DATABASE_HOST: z.string().optional(),
+    // Read replica for findMany and count; without credentials in the URL
+    // the DATABASE_SECRET ones are used
+    DATABASE_READ_URL: z.string().url().optional(),
+    // Reads go back to the primary while the replica lags more than this
+    DATABASE_READ_MAX_LAG_SECONDS: z.coerce.number().positive().default(5),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -15,6 +27,11 @@ export const env = createEnv({
   // For Next.js >= 13.4.4, you only need to destructure client variables:
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
+    DATABASE_SECRET: process.env.DATABASE_SECRET,
+    DATABASE_SECRET_ARN: process.env.DATABASE_SECRET_ARN,
+    DATABASE_HOST: process.env.DATABASE_HOST,
+    DATABASE_READ_URL: process.env.DATABASE_READ_URL,
+    DATABASE_READ_MAX_LAG_SECONDS: process.env.DATABASE_READ_MAX_LAG_SECONDS,
     NODE_ENV: process.env.NODE_ENV,
   },
   // Allow skipping validation for development scenarios
@@ -9,8 +9,6 @@ NC='\033[0m' # No Color
 
 # Configuration
 AWS_REGION=${AWS_REGION:-us-east-1}
-CLUSTER_NAME="pathfinder"
-APP_PROJECT="pathfinder-app-build"
 
 echo -e "${GREEN}🚀 Starting Pathfinder deployment...${NC}"
 
@@ -49,18 +47,31 @@ wait_for_build() {
 echo -e "${YELLOW}📋 Step 1: Updating infrastructure...${NC}"
 cd apps/infra
 export NODE_ENV=production
-pulumi up --yes
+[ -d policy/node_modules ] || npm ci --prefix policy
+[ -d functions/database-roles/node_modules ] || npm install --prefix functions/database-roles
+pulumi up --yes --policy-pack ./policy
+
+# Physical names are derived per stack, so read them from the stack outputs
+CLUSTER_NAME=$(pulumi stack output ecsClusterName)
+SERVICE_NAME=$(pulumi stack output ecsServiceName)
+APP_PROJECT=$(pulumi stack output codebuildProjectName)
+ALB_DNS=$(pulumi stack output albDns)
 cd ../..
 echo -e "${GREEN}✅ Infrastructure updated${NC}"
 
 # Step 2: Build and Deploy Application (includes migrations)
-echo -e "${YELLOW}🔨 Step 2: Building application (migrations + Next.js + Docker)...${NC}"
-app_build_id=$(aws codebuild start-build \
-    --project-name "$APP_PROJECT" \
-    --query 'build.id' --output text)
+# The stack has no CodeBuild project without enableCodeBuild
+if [ -n "$APP_PROJECT" ]; then
+    echo -e "${YELLOW}🔨 Step 2: Building application (migrations + Next.js + Docker)...${NC}"
+    app_build_id=$(aws codebuild start-build \
+        --project-name "$APP_PROJECT" \
+        --query 'build.id' --output text)
 
-echo "App build ID: $app_build_id"
-wait_for_build "$app_build_id" "Application"
+    echo "App build ID: $app_build_id"
+    wait_for_build "$app_build_id" "Application"
+else
+    echo -e "${YELLOW}⏭️  Step 2: CodeBuild is disabled for this stack, skipping the application build${NC}"
+fi
 
 # Step 3: Verify Deployment
 echo -e "${YELLOW}🔍 Step 3: Verifying deployment...${NC}"
@@ -99,7 +110,7 @@ wait_with_timeout() {
 
 if ! wait_with_timeout 600 aws ecs wait services-stable \
     --cluster "$CLUSTER_NAME" \
-    --services pathfinder; then
+    --services "$SERVICE_NAME"; then
     
     echo -e "${RED}❌ ECS service failed to stabilize within 10 minutes${NC}"
     
@@ -107,7 +118,7 @@ if ! wait_with_timeout 600 aws ecs wait services-stable \
     echo -e "${RED}Current service status:${NC}"
     aws ecs describe-services \
         --cluster "$CLUSTER_NAME" \
-        --services pathfinder \
+        --services "$SERVICE_NAME" \
         --query 'services[0].{desired:desiredCount,running:runningCount,pending:pendingCount,status:status}' \
         --output table
     
@@ -115,7 +126,7 @@ if ! wait_with_timeout 600 aws ecs wait services-stable \
     echo -e "${RED}Recent service events:${NC}"
     aws ecs describe-services \
         --cluster "$CLUSTER_NAME" \
-        --services pathfinder \
+        --services "$SERVICE_NAME" \
         --query 'services[0].events[0:5]' \
         --output json
     
@@ -123,7 +134,7 @@ if ! wait_with_timeout 600 aws ecs wait services-stable \
     echo -e "${RED}Checking for task failures:${NC}"
     TASK_ARNS=$(aws ecs list-tasks \
         --cluster "$CLUSTER_NAME" \
-        --service-name pathfinder \
+        --service-name "$SERVICE_NAME" \
         --desired-status STOPPED \
         --query 'taskArns[0:3]' \
         --output json)
@@ -142,10 +153,7 @@ fi
 
 echo -e "${GREEN}✅ ECS service is stable${NC}"
 
-# Get ALB DNS name
-alb_dns=$(aws elbv2 describe-load-balancers \
-    --query 'LoadBalancers[?contains(LoadBalancerName, `pathfinder`)].DNSName' \
-    --output text)
+alb_dns="$ALB_DNS"
 
 if [ -z "$alb_dns" ]; then
     echo -e "${RED}❌ Could not find load balancer${NC}"